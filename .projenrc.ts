@@ -31,7 +31,23 @@ const project = new awscdk.AwsCdkConstructLibrary({
     "husky@^9",
     "@commitlint/cli@^21.0.1",
     "@commitlint/config-conventional@^21.0.1",
+    "@aws-sdk/client-cloudfront-keyvaluestore@^3",
+    "@aws-sdk/client-s3@^3",
+    "@aws-sdk/client-secrets-manager@^3",
+    "@smithy/signature-v4a@^3",
+    "@types/aws-lambda",
   ],
+  bundlerOptions: {
+    assetsDir: "assets/bundles",
+  },
+  lambdaOptions: {
+    runtime: awscdk.LambdaRuntime.NODEJS_24_X,
+    bundlingOptions: {
+      // The key value store API needs SigV4A, which the SDK in the Lambda
+      // runtime can't sign without @smithy/signature-v4a, so bundle the SDK
+      externals: [],
+    },
+  },
   // packageName: undefined,  /* The "name" in package.json. */
 
   keywords: ["aws", "aws-cdk", "opennext", "open-next", "nextjs", "Next.js"],
@@ -0,0 +1,62 @@
+// Loaded with NODE_OPTIONS=--import before the server. Resolves the secrets
+// in CDK_OPENNEXT_SECRETS through the AWS Parameters and Secrets Lambda
+// Extension and sets them as environment variables. Any failure stops the
+// cold start with an error naming the variable.
+const endpoint = `http://localhost:${process.env.PARAMETERS_SECRETS_EXTENSION_HTTP_PORT || 2773}`
+const attempts = 5
+
+async function get(path) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(endpoint + path, {
+        headers: { "X-Aws-Parameters-Secrets-Token": process.env.AWS_SESSION_TOKEN },
+      })
+      if (!response.ok) {
+        throw new Error(`${response.status} ${await response.text()}`)
+      }
+      return await response.json()
+    } catch (error) {
+      if (attempt === attempts) {
+        throw error
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100 * 2 ** attempt))
+    }
+  }
+}
+
+async function resolve({ secret, jsonField, parameter }) {
+  if (parameter) {
+    const { Parameter } = await get(
+      `/systemsmanager/parameters/get?name=${encodeURIComponent(parameter)}&withDecryption=true`
+    )
+    return Parameter.Value
+  }
+  const { SecretString } = await get(
+    `/secretsmanager/get?secretId=${encodeURIComponent(secret)}`
+  )
+  if (!jsonField) {
+    return SecretString
+  }
+  let fields
+  try {
+    fields = JSON.parse(SecretString)
+  } catch {
+    throw new Error(`the secret is not JSON, but jsonField '${jsonField}' is set`)
+  }
+  if (fields?.[jsonField] === undefined) {
+    throw new Error(`the secret has no field '${jsonField}'`)
+  }
+  const value = fields[jsonField]
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+const secrets = Object.entries(JSON.parse(process.env.CDK_OPENNEXT_SECRETS || "{}"))
+await Promise.all(
+  secrets.map(async ([name, source]) => {
+    try {
+      process.env[name] = await resolve(source)
+    } catch (error) {
+      throw new Error(`Could not resolve the secret of ${name}: ${error.message}`)
+    }
+  })
+)
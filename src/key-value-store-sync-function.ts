@@ -0,0 +1,26 @@
+// ~~ Generated by projen. To modify, edit .projenrc.ts and run "npx projen".
+import * as path from 'path';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { Construct } from 'constructs';
+
+/**
+ * Props for KeyValueStoreSyncFunction
+ */
+export interface KeyValueStoreSyncFunctionProps extends lambda.FunctionOptions {
+}
+
+/**
+ * An AWS Lambda function which executes src/key-value-store-sync.
+ */
+export class KeyValueStoreSyncFunction extends lambda.Function {
+  constructor(scope: Construct, id: string, props?: KeyValueStoreSyncFunctionProps) {
+    super(scope, id, {
+      description: 'src/key-value-store-sync.lambda.ts',
+      ...props,
+      runtime: new lambda.Runtime('nodejs24.x', lambda.RuntimeFamily.NODEJS),
+      handler: 'index.handler',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../assets/bundles/key-value-store-sync.lambda')),
+    });
+    this.addEnvironment('AWS_NODEJS_CONNECTION_REUSE_ENABLED', '1', { removeInEdge: true });
+  }
+}
\ No newline at end of file
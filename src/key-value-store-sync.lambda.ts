@@ -0,0 +1,137 @@
+import {
+  CloudFrontKeyValueStoreClient,
+  DescribeKeyValueStoreCommand,
+  ListKeysCommand,
+  UpdateKeysCommand,
+} from "@aws-sdk/client-cloudfront-keyvaluestore"
+import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3"
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from "@aws-sdk/client-secrets-manager"
+// Registers the SigV4A signer, which the key value store API requires
+import "@smithy/signature-v4a"
+import type {
+  CloudFormationCustomResourceCreateEvent,
+  CloudFormationCustomResourceEvent,
+  CloudFormationCustomResourceUpdateEvent,
+} from "aws-lambda"
+
+// UpdateKeys accepts at most 50 puts and deletes per call
+const BATCH_SIZE = 50
+
+const kvs = new CloudFrontKeyValueStoreClient({})
+const s3 = new S3Client({})
+const secretsManager = new SecretsManagerClient({})
+
+async function listKeys(arn: string) {
+  const keys: Record<string, string> = {}
+  let nextToken: string | undefined
+  do {
+    const page = await kvs.send(
+      new ListKeysCommand({ KvsARN: arn, MaxResults: BATCH_SIZE, NextToken: nextToken })
+    )
+    for (const item of page.Items ?? []) {
+      keys[item.Key!] = item.Value!
+    }
+    nextToken = page.NextToken
+  } while (nextToken)
+  return keys
+}
+
+async function readRedirects(location?: { Bucket: string; Key: string }) {
+  if (!location) {
+    return {}
+  }
+  const object = await s3.send(new GetObjectCommand(location))
+  const { data } = JSON.parse(await object.Body!.transformToString()) as {
+    data: { key: string; value: string }[]
+  }
+  return Object.fromEntries(data.map(({ key, value }) => [key, value]))
+}
+
+/**
+ * Returns the base64 encoded `username:password` of a secret with
+ * `username` and `password` JSON fields.
+ */
+async function readBasicAuth(secretArn: string) {
+  const { SecretString } = await secretsManager.send(
+    new GetSecretValueCommand({ SecretId: secretArn })
+  )
+  const { username, password } = JSON.parse(SecretString!)
+  if (typeof username !== "string" || typeof password !== "string") {
+    throw new Error(`Secret ${secretArn} needs username and password fields`)
+  }
+  return Buffer.from(`${username}:${password}`).toString("base64")
+}
+
+/**
+ * Puts the redirects, deletes redirects that were removed from the file and
+ * sets the maintenance flag and the basic auth credentials when they are
+ * created or their configuration changes. Keys that don't start with / are
+ * never deleted.
+ */
+async function sync(
+  event: CloudFormationCustomResourceCreateEvent | CloudFormationCustomResourceUpdateEvent
+) {
+  const props = event.ResourceProperties
+  const arn: string = props.KeyValueStoreArn
+  const redirects = await readRedirects(props.Redirects)
+  const existing = await listKeys(arn)
+
+  const puts = Object.entries(redirects)
+    .filter(([key, value]) => existing[key] !== value)
+    .map(([Key, Value]) => ({ Key, Value }))
+  const deletes = props.Redirects
+    ? Object.keys(existing)
+        .filter((key) => key.startsWith("/") && !(key in redirects))
+        .map((Key) => ({ Key }))
+    : []
+  const maintenance: string | undefined = props.Maintenance
+  if (
+    maintenance !== undefined &&
+    (event.RequestType === "Create" ||
+      event.OldResourceProperties.Maintenance !== maintenance ||
+      !("maintenance" in existing))
+  ) {
+    puts.push({ Key: "maintenance", Value: maintenance })
+  }
+  const basicAuth: { SecretArn: string; Key: string } | undefined = props.BasicAuth
+  if (
+    basicAuth !== undefined &&
+    (event.RequestType === "Create" ||
+      JSON.stringify(event.OldResourceProperties.BasicAuth) !==
+        JSON.stringify(basicAuth) ||
+      !(basicAuth.Key in existing))
+  ) {
+    puts.push({ Key: basicAuth.Key, Value: await readBasicAuth(basicAuth.SecretArn) })
+  }
+
+  if (puts.length === 0 && deletes.length === 0) {
+    return
+  }
+  let { ETag } = await kvs.send(new DescribeKeyValueStoreCommand({ KvsARN: arn }))
+  for (let i = 0; i < Math.max(puts.length, deletes.length); i += BATCH_SIZE) {
+    ;({ ETag } = await kvs.send(
+      new UpdateKeysCommand({
+        KvsARN: arn,
+        IfMatch: ETag,
+        Puts: puts.slice(i, i + BATCH_SIZE),
+        Deletes: deletes.slice(i, i + BATCH_SIZE),
+      })
+    ))
+  }
+}
+
+/**
+ * Custom resource handler that syncs the redirects, the maintenance flag
+ * and the basic auth credentials into the site's CloudFront KeyValueStore,
+ * so the store and any keys set by operators survive a deployment.
+ */
+export async function handler(event: CloudFormationCustomResourceEvent) {
+  // Keys stay in the store until it is deleted with the stack
+  if (event.RequestType !== "Delete") {
+    await sync(event)
+  }
+  return { PhysicalResourceId: event.ResourceProperties.KeyValueStoreArn }
+}
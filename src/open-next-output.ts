@@ -0,0 +1,323 @@
+import { existsSync, readFileSync, statSync } from "fs"
+import * as path from "path"
+
+export type BaseFunction = {
+  handler: string
+  bundle: string
+}
+
+export type OpenNextQueue = "direct" | "dummy" | "sqs" | "sqs-lite"
+
+export type OpenNextIncrementalCache =
+  | "dummy"
+  | "fs-dev"
+  | "multi-tier-ddb-s3"
+  | "s3"
+  | "s3-lite"
+
+export type OpenNextTagCache =
+  | "dummy"
+  | "dynamodb"
+  | "dynamodb-lite"
+  | "dynamodb-nextMode"
+  | "fs-dev"
+  | "fs-dev-nextMode"
+
+export type OpenNextFunctionOrigin = {
+  type: "function"
+  streaming?: boolean
+  queue?: OpenNextQueue
+  incrementalCache?: OpenNextIncrementalCache
+  tagCache?: OpenNextTagCache
+} & BaseFunction
+
+export type OpenNextS3Origin = {
+  type: "s3"
+  originPath: string
+  copy: {
+    from: string
+    to: string
+    cached: boolean
+    versionedSubDir?: string
+  }[]
+}
+
+export type OpenNextOrigins = OpenNextFunctionOrigin | OpenNextS3Origin
+
+export interface OpenNextOutput {
+  edgeFunctions: {
+    [key: string]: BaseFunction
+  }
+  origins: {
+    s3: OpenNextS3Origin
+    default: OpenNextFunctionOrigin
+    imageOptimizer: OpenNextFunctionOrigin
+    [key: string]: OpenNextOrigins
+  }
+  behaviors: {
+    pattern: string
+    origin?: string
+    edgeFunction?: string
+  }[]
+  additionalProps?: {
+    disableIncrementalCache?: boolean
+    disableTagCache?: boolean
+    initializationFunction?: BaseFunction
+    warmer?: BaseFunction
+    revalidationFunction?: BaseFunction
+  }
+}
+
+const OUTPUT_FILE = "open-next.output.json"
+
+const BUILD_HINT =
+  "Run `open-next build` before synthesizing. " +
+  "cdk-opennext supports the output of OpenNext 3.x."
+
+type Json = { [key: string]: unknown }
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Validates open-next.output.json against the shape this construct
+ * relies on. Collects every problem instead of stopping at the first so
+ * they can be reported together.
+ */
+class OutputValidator {
+  public readonly errors: string[] = []
+
+  constructor(private readonly rootPath: string) {}
+
+  public validate(output: unknown) {
+    if (!isObject(output)) {
+      this.errors.push("the output must be a JSON object")
+      return
+    }
+
+    const edgeFunctions = this.validateEdgeFunctions(output.edgeFunctions)
+    const origins = this.validateOrigins(output.origins)
+    this.validateBehaviors(output.behaviors, origins, edgeFunctions)
+    this.validateAdditionalProps(output.additionalProps)
+  }
+
+  private validateEdgeFunctions(edgeFunctions: unknown) {
+    if (edgeFunctions === undefined) {
+      return []
+    }
+    if (!isObject(edgeFunctions)) {
+      this.errors.push("edgeFunctions must be an object")
+      return []
+    }
+    for (const [key, fn] of Object.entries(edgeFunctions)) {
+      this.validateFunction(`edgeFunctions.${key}`, fn)
+    }
+    return Object.keys(edgeFunctions)
+  }
+
+  private validateOrigins(origins: unknown) {
+    if (!isObject(origins)) {
+      this.errors.push("origins must be an object")
+      return []
+    }
+    for (const required of ["s3", "default", "imageOptimizer"]) {
+      if (!(required in origins)) {
+        this.errors.push(`origins.${required} is missing`)
+      }
+    }
+    for (const [key, origin] of Object.entries(origins)) {
+      const name = `origins.${key}`
+      if (!isObject(origin)) {
+        this.errors.push(`${name} must be an object`)
+        continue
+      }
+      const expectedType =
+        key === "s3"
+          ? "s3"
+          : key === "default" || key === "imageOptimizer"
+            ? "function"
+            : undefined
+      if (expectedType && origin.type !== expectedType) {
+        this.errors.push(`${name}.type must be "${expectedType}"`)
+        continue
+      }
+      // Other origin types, such as ecs, are not deployed by this construct
+      if (origin.type === "function") {
+        this.validateFunctionOrigin(name, origin)
+      } else if (origin.type === "s3") {
+        this.validateS3Origin(name, origin)
+      }
+    }
+    return Object.keys(origins)
+  }
+
+  private validateFunctionOrigin(name: string, origin: Json) {
+    this.validateFunction(name, origin)
+    this.validateOptional(name, origin, "streaming", "boolean")
+    this.validateOptional(name, origin, "queue", "string")
+    this.validateOptional(name, origin, "incrementalCache", "string")
+    this.validateOptional(name, origin, "tagCache", "string")
+  }
+
+  private validateS3Origin(name: string, origin: Json) {
+    if (typeof origin.originPath !== "string") {
+      this.errors.push(`${name}.originPath must be a string`)
+    }
+    if (!Array.isArray(origin.copy)) {
+      this.errors.push(`${name}.copy must be an array`)
+      return
+    }
+    origin.copy.forEach((copy, index) => {
+      const copyName = `${name}.copy[${index}]`
+      if (!isObject(copy)) {
+        this.errors.push(`${copyName} must be an object`)
+        return
+      }
+      if (typeof copy.from !== "string") {
+        this.errors.push(`${copyName}.from must be a string`)
+      } else {
+        this.validateDirectory(`${copyName}.from`, copy.from)
+      }
+      if (typeof copy.to !== "string") {
+        this.errors.push(`${copyName}.to must be a string`)
+      }
+      if (typeof copy.cached !== "boolean") {
+        this.errors.push(`${copyName}.cached must be a boolean`)
+      }
+      this.validateOptional(copyName, copy, "versionedSubDir", "string")
+    })
+  }
+
+  private validateBehaviors(
+    behaviors: unknown,
+    origins: string[],
+    edgeFunctions: string[]
+  ) {
+    if (!Array.isArray(behaviors)) {
+      this.errors.push("behaviors must be an array")
+      return
+    }
+    behaviors.forEach((behavior, index) => {
+      const name = `behaviors[${index}]`
+      if (!isObject(behavior)) {
+        this.errors.push(`${name} must be an object`)
+        return
+      }
+      if (typeof behavior.pattern !== "string") {
+        this.errors.push(`${name}.pattern must be a string`)
+      }
+      const pattern =
+        typeof behavior.pattern === "string" ? ` ('${behavior.pattern}')` : ""
+      if (this.validateOptional(name, behavior, "origin", "string")) {
+        if (
+          behavior.origin !== undefined &&
+          !origins.includes(behavior.origin as string)
+        ) {
+          this.errors.push(
+            `${name}${pattern} references unknown origin '${behavior.origin}'. ` +
+              `Known origins: ${origins.join(", ")}`
+          )
+        }
+      }
+      if (this.validateOptional(name, behavior, "edgeFunction", "string")) {
+        if (
+          behavior.edgeFunction !== undefined &&
+          !edgeFunctions.includes(behavior.edgeFunction as string)
+        ) {
+          this.errors.push(
+            `${name}${pattern} references unknown edge function '${behavior.edgeFunction}'. ` +
+              `Known edge functions: ${edgeFunctions.join(", ") || "none"}`
+          )
+        }
+      }
+    })
+  }
+
+  private validateAdditionalProps(additionalProps: unknown) {
+    if (additionalProps === undefined) {
+      return
+    }
+    if (!isObject(additionalProps)) {
+      this.errors.push("additionalProps must be an object")
+      return
+    }
+    const name = "additionalProps"
+    this.validateOptional(name, additionalProps, "disableIncrementalCache", "boolean")
+    this.validateOptional(name, additionalProps, "disableTagCache", "boolean")
+    for (const key of ["initializationFunction", "warmer", "revalidationFunction"]) {
+      if (additionalProps[key] !== undefined) {
+        this.validateFunction(`${name}.${key}`, additionalProps[key])
+      }
+    }
+  }
+
+  private validateFunction(name: string, fn: unknown) {
+    if (!isObject(fn)) {
+      this.errors.push(`${name} must be an object`)
+      return
+    }
+    if (typeof fn.handler !== "string") {
+      this.errors.push(`${name}.handler must be a string`)
+    }
+    if (typeof fn.bundle !== "string") {
+      this.errors.push(`${name}.bundle must be a string`)
+      return
+    }
+    this.validateDirectory(`${name}.bundle`, fn.bundle)
+  }
+
+  private validateOptional(name: string, value: Json, key: string, type: string) {
+    if (value[key] !== undefined && typeof value[key] !== type) {
+      this.errors.push(`${name}.${key} must be a ${type}`)
+      return false
+    }
+    return true
+  }
+
+  private validateDirectory(name: string, relativePath: string) {
+    const directory = path.join(this.rootPath, relativePath)
+    if (!existsSync(directory) || !statSync(directory).isDirectory()) {
+      this.errors.push(`${name} directory '${directory}' does not exist`)
+    }
+  }
+}
+
+/**
+ * Reads and validates open-next.output.json from the given .open-next
+ * directory. Throws a single error listing every problem found.
+ */
+export function loadOpenNextOutput(openNextPath: string): OpenNextOutput {
+  const outputFile = path.join(openNextPath, OUTPUT_FILE)
+  if (!existsSync(openNextPath)) {
+    throw new Error(`OpenNext directory '${openNextPath}' does not exist. ${BUILD_HINT}`)
+  }
+  if (!existsSync(outputFile)) {
+    throw new Error(
+      `${OUTPUT_FILE} not found in '${openNextPath}'. ` +
+        "OpenNext versions before 3.x do not create this file. " +
+        BUILD_HINT
+    )
+  }
+
+  let output: unknown
+  try {
+    output = JSON.parse(readFileSync(outputFile, "utf-8"))
+  } catch (error) {
+    throw new Error(
+      `${outputFile} is not valid JSON: ${(error as Error).message}. ${BUILD_HINT}`
+    )
+  }
+
+  // Bundle paths in the output are relative to the parent of .open-next
+  const validator = new OutputValidator(path.join(openNextPath, ".."))
+  validator.validate(output)
+  if (validator.errors.length > 0) {
+    throw new Error(
+      `Invalid ${outputFile}:\n` +
+        validator.errors.map((error) => `  - ${error}`).join("\n") +
+        `\n${BUILD_HINT}`
+    )
+  }
+  return output as OpenNextOutput
+}
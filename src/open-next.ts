@@ -1,6 +1,7 @@
 import { createHash } from "crypto"
-import { readFileSync } from "fs"
+import { existsSync, readFileSync, writeFileSync } from "fs"
 import * as path from "path"
+import { type ScalingSchedule } from "aws-cdk-lib/aws-applicationautoscaling"
 import { DnsValidatedCertificate, ICertificate } from "aws-cdk-lib/aws-certificatemanager"
 import {
   AllowedMethods,
@@ -13,29 +14,88 @@ import {
   Distribution,
   type ICachePolicy,
   type IOrigin,
+  type IOriginRequestPolicy,
+  type IResponseHeadersPolicy,
+  HeadersFrameOption,
+  HeadersReferrerPolicy,
+  ResponseHeadersPolicy,
   ViewerProtocolPolicy,
   FunctionEventType,
   OriginRequestPolicy,
   Function as CloudfrontFunction,
   FunctionCode,
+  experimental,
+  type EdgeLambda,
+  LambdaEdgeEventType,
+  type IKeyValueStore,
+  KeyValueStore,
+  Endpoint,
+  RealtimeLogConfig,
 } from "aws-cdk-lib/aws-cloudfront"
 import {
   FunctionUrlOrigin,
   HttpOrigin,
   S3BucketOrigin,
 } from "aws-cdk-lib/aws-cloudfront-origins"
-import { TableV2 as Table, AttributeType, Billing } from "aws-cdk-lib/aws-dynamodb"
+import {
+  Alarm,
+  ComparisonOperator,
+  Dashboard,
+  GraphWidget,
+  type IAlarm,
+  type IMetric,
+  TreatMissingData,
+} from "aws-cdk-lib/aws-cloudwatch"
+import { SnsAction } from "aws-cdk-lib/aws-cloudwatch-actions"
+import {
+  type ILambdaDeploymentConfig,
+  LambdaDeploymentConfig,
+  LambdaDeploymentGroup,
+} from "aws-cdk-lib/aws-codedeploy"
+import {
+  TableV2 as Table,
+  AttributeType,
+  Billing,
+  Operation,
+} from "aws-cdk-lib/aws-dynamodb"
+import {
+  GatewayVpcEndpoint,
+  GatewayVpcEndpointAwsService,
+  InterfaceVpcEndpoint,
+  InterfaceVpcEndpointAwsService,
+  type ISecurityGroup,
+  type IVpc,
+  type SubnetSelection,
+} from "aws-cdk-lib/aws-ec2"
 import { Rule, Schedule } from "aws-cdk-lib/aws-events"
 import { LambdaFunction } from "aws-cdk-lib/aws-events-targets"
-import { type IGrantable } from "aws-cdk-lib/aws-iam"
 import {
+  Grant,
+  type IGrantable,
+  ManagedPolicy,
+  Role,
+  ServicePrincipal,
+} from "aws-cdk-lib/aws-iam"
+import {
+  type IStream,
+  Stream,
+  StreamEncryption,
+  StreamMode,
+} from "aws-cdk-lib/aws-kinesis"
+import { type IKey } from "aws-cdk-lib/aws-kms"
+import {
+  Alias,
   Code,
   Function as CdkFunction,
   type FunctionOptions,
   type FunctionUrl,
   FunctionUrlAuthType,
+  type IFunction,
   InvokeMode,
+  LayerVersion,
   LoggingFormat,
+  ParamsAndSecretsLayerVersion,
+  ParamsAndSecretsVersions,
   Runtime,
   Architecture,
 } from "aws-cdk-lib/aws-lambda"
@@ -43,86 +103,72 @@ import { SqsEventSource } from "aws-cdk-lib/aws-lambda-event-sources"
 import { ILogGroup, LogGroup, RetentionDays } from "aws-cdk-lib/aws-logs"
 import { AaaaRecord, ARecord, IHostedZone, RecordTarget } from "aws-cdk-lib/aws-route53"
 import { CloudFrontTarget } from "aws-cdk-lib/aws-route53-targets"
-import { BlockPublicAccess, Bucket } from "aws-cdk-lib/aws-s3"
-import { BucketDeployment, Source } from "aws-cdk-lib/aws-s3-deployment"
+import {
+  BlockPublicAccess,
+  Bucket,
+  type IBucket,
+  ObjectOwnership,
+} from "aws-cdk-lib/aws-s3"
+import { Asset } from "aws-cdk-lib/aws-s3-assets"
+import { BucketDeployment, CacheControl, Source } from "aws-cdk-lib/aws-s3-deployment"
+import {
+  ScheduleExpression,
+  Schedule as SchedulerSchedule,
+} from "aws-cdk-lib/aws-scheduler"
+import { LambdaInvoke } from "aws-cdk-lib/aws-scheduler-targets"
+import { type ISecret } from "aws-cdk-lib/aws-secretsmanager"
+import { type ITopic } from "aws-cdk-lib/aws-sns"
 import { Queue } from "aws-cdk-lib/aws-sqs"
+import { type IParameter, StringParameter } from "aws-cdk-lib/aws-ssm"
+import { CfnIPSet, CfnWebACL } from "aws-cdk-lib/aws-wafv2"
 import {
   Annotations,
   CustomResource,
   Duration,
+  FileSystem,
   Fn,
+  IgnoreMode,
+  Names,
+  PhysicalName,
   RemovalPolicy,
   Stack,
+  Stage,
+  Token,
+  Tokenization,
 } from "aws-cdk-lib/core"
-import { Provider } from "aws-cdk-lib/custom-resources"
+import {
+  AwsCustomResource,
+  AwsCustomResourcePolicy,
+  PhysicalResourceId,
+  Provider,
+} from "aws-cdk-lib/custom-resources"
 import { Construct } from "constructs"
+import { KeyValueStoreSyncFunction } from "./key-value-store-sync-function"
+import {
+  type BaseFunction,
+  loadOpenNextOutput,
+  type OpenNextFunctionOrigin,
+  type OpenNextOutput,
+  type OpenNextS3Origin,
+} from "./open-next-output"
+import { loadRedirects, toKeyValueStoreData } from "./redirects"
 
-type BaseFunction = {
-  handler: string
-  bundle: string
-}
-
-type OpenNextQueue = "direct" | "dummy" | "sqs" | "sqs-lite"
-
-type OpenNextIncrementalCache =
-  | "dummy"
-  | "fs-dev"
-  | "multi-tier-ddb-s3"
-  | "s3"
-  | "s3-lite"
-
-type OpenNextTagCache =
-  | "dummy"
-  | "dynamodb"
-  | "dynamodb-lite"
-  | "dynamodb-nextMode"
-  | "fs-dev"
-  | "fs-dev-nextMode"
-
-type OpenNextFunctionOrigin = {
-  type: "function"
-  streaming?: boolean
-  queue?: OpenNextQueue
-  incrementalCache?: OpenNextIncrementalCache
-  tagCache?: OpenNextTagCache
-} & BaseFunction
-
-type OpenNextS3Origin = {
-  type: "s3"
-  originPath: string
-  copy: {
-    from: string
-    to: string
-    cached: boolean
-    versionedSubDir?: string
-  }[]
-}
-
-type OpenNextOrigins = OpenNextFunctionOrigin | OpenNextS3Origin
-
-interface OpenNextOutput {
-  edgeFunctions: {
-    [key: string]: BaseFunction
-  }
-  origins: {
-    s3: OpenNextS3Origin
-    default: OpenNextFunctionOrigin
-    imageOptimizer: OpenNextFunctionOrigin
-    [key: string]: OpenNextOrigins
-  }
-  behaviors: {
-    pattern: string
-    origin?: string
-    edgeFunction?: string
-  }[]
-  additionalProps?: {
-    disableIncrementalCache?: boolean
-    disableTagCache?: boolean
-    initializationFunction?: BaseFunction
-    warmer?: BaseFunction
-    revalidationFunction?: BaseFunction
-  }
-}
+/** Timeout of the server functions unless set in the function props. */
+const DEFAULT_SERVER_TIMEOUT = Duration.seconds(10)
+
+const DEFAULT_MAINTENANCE_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Down for maintenance</title>
+</head>
+<body style="font-family: system-ui, sans-serif; text-align: center; padding: 4rem 1rem">
+<h1>Down for maintenance</h1>
+<p>We'll be back shortly.</p>
+</body>
+</html>
+`
 
 /**
  * Behavior descriptor from open-next.output.json.
@@ -138,6 +184,12 @@ export interface OpenNextBehavior {
    * The origin name to use for this behavior. If not specified, uses "default".
    */
   readonly origin?: string
+
+  /**
+   * The edge function (external middleware) to run for this behavior,
+   * keyed into `NextjsSite.edgeFunctions`.
+   */
+  readonly edgeFunction?: string
 }
 
 /**
@@ -148,81 +200,1151 @@ export interface DefaultFunctionProps extends FunctionOptions {
   /**
    * The runtime environment for the Lambda function.
    *
-   * @default Runtime.NODEJS_24_X
+   * @default Runtime.NODEJS_24_X
+   */
+  readonly runtime?: Runtime
+}
+
+/**
+ * Props for Lambda@Edge functions. Lambda@Edge only supports x86_64 and
+ * does not allow environment variables, so only these options apply.
+ */
+export interface EdgeFunctionProps {
+  /**
+   * The runtime environment for the function.
+   *
+   * @default Runtime.NODEJS_22_X
+   */
+  readonly runtime?: Runtime
+
+  /**
+   * The amount of memory, in MB, allocated to the function.
+   *
+   * @default - 1024 for edge functions, 128 for the signing function
+   */
+  readonly memorySize?: number
+
+  /**
+   * The function execution time after which Lambda@Edge terminates the
+   * function. Origin request functions may run for up to 30 seconds.
+   *
+   * @default - 30 seconds for edge functions, 5 seconds for the signing function
+   */
+  readonly timeout?: Duration
+}
+
+/**
+ * How server function URLs are protected from direct access.
+ */
+export enum ServerFunctionProtection {
+  /**
+   * Function URLs are public. Anyone who knows the lambda-url domain can
+   * bypass CloudFront.
+   */
+  NONE = "none",
+
+  /**
+   * Function URLs require IAM auth and CloudFront signs requests using
+   * Origin Access Control. Clients must send the `x-amz-content-sha256`
+   * header with the SHA-256 hash of the body for POST and PUT requests.
+   */
+  OAC = "oac",
+
+  /**
+   * Like `OAC`, but a Lambda@Edge origin request function computes the
+   * `x-amz-content-sha256` header, so requests with a body such as
+   * Server Actions work without client changes. Lambda@Edge only receives
+   * the first 1 MB of the body, so larger requests are rejected with 413.
+   */
+  OAC_WITH_EDGE_SIGNING = "oac-with-edge-signing",
+}
+
+/**
+ * Functions created by `NextjsSite` that can be placed in a VPC.
+ */
+export enum VpcFunction {
+  /** The default server function and all additional function origins. */
+  SERVER = "server",
+
+  /** The image optimization function. */
+  IMAGE_OPTIMIZER = "imageOptimizer",
+
+  /**
+   * The revalidation queue consumer. It calls the site over its public
+   * URL, so the subnets need internet access.
+   */
+  REVALIDATION = "revalidation",
+
+  /** The function that seeds the revalidation table on deploy. */
+  INITIALIZATION = "initialization",
+
+  /** The warmer and pre-warmer functions. */
+  WARMER = "warmer",
+}
+
+/**
+ * Configuration for the image optimization function.
+ */
+export interface ImageOptimizationProps extends DefaultFunctionProps {
+  /**
+   * Use this cache policy for `_next/image` instead of the one created
+   * by the construct.
+   *
+   * @default - a policy keyed on the `url`, `w` and `q` query strings and
+   * the `accept` header
+   */
+  readonly cachePolicy?: ICachePolicy
+}
+
+/**
+ * Cache-Control headers for the files of one OpenNext asset copy.
+ */
+export interface AssetCacheControl {
+  /**
+   * Cache-Control for files in the versioned subdirectory (`_next`),
+   * whose names contain a content hash.
+   *
+   * @default "public,max-age=31536000,immutable" for cached assets
+   */
+  readonly versioned?: string
+
+  /**
+   * Cache-Control for all other files, such as prerendered HTML and
+   * files from `public`.
+   *
+   * @default "public,max-age=0,s-maxage=31536000,must-revalidate" for
+   * cached assets
+   */
+  readonly unversioned?: string
+}
+
+/**
+ * Configuration for the CloudFront invalidation issued after each
+ * deployment.
+ */
+export interface InvalidationProps {
+  /**
+   * The paths to invalidate.
+   *
+   * @default ["/*"]
+   */
+  readonly paths?: string[]
+
+  /**
+   * Only invalidate when the OpenNext bundles (server functions, edge
+   * functions and static assets) changed since the last deployment.
+   *
+   * @default false
+   */
+  readonly onlyWhenChanged?: boolean
+
+  /**
+   * Wait for the invalidation to complete before the stack reports
+   * success. This can take several minutes.
+   *
+   * @default false
+   */
+  readonly wait?: boolean
+}
+
+/**
+ * Configuration for gradual traffic shifting of the server functions.
+ */
+export interface ServerDeploymentProps {
+  /**
+   * How traffic is shifted from the previous version to the new one.
+   *
+   * @default LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES
+   */
+  readonly deploymentConfig?: ILambdaDeploymentConfig
+
+  /**
+   * Alarms that stop the deployment and roll back to the previous
+   * version when they go off.
+   *
+   * @default - an alarm on the errors of each server function alias
+   */
+  readonly alarms?: IAlarm[]
+
+  /**
+   * Name of the alias the function URLs point to.
+   *
+   * @default "live"
+   */
+  readonly aliasName?: string
+}
+
+/**
+ * AWS WAF configuration for the distribution. Either reference an
+ * existing web ACL with `webAclArn`, or configure the rules of a web ACL
+ * created by this construct.
+ */
+export interface WafProps {
+  /**
+   * ARN of an existing WAFv2 web ACL with CLOUDFRONT scope. No web ACL
+   * is created when set, so no other option may be set.
+   *
+   * @default - a web ACL is created
+   */
+  readonly webAclArn?: string
+
+  /**
+   * Add the AWS managed core rule set (AWSManagedRulesCommonRuleSet).
+   * Its `SizeRestrictions_BODY` rule is set to count instead of block,
+   * because it blocks request bodies over 8 KB, which includes many
+   * Server Action and form posts.
+   *
+   * @default true
+   */
+  readonly commonRuleSet?: boolean
+
+  /**
+   * Add the AWS managed known bad inputs rule set
+   * (AWSManagedRulesKnownBadInputsRuleSet).
+   *
+   * @default true
+   */
+  readonly knownBadInputsRuleSet?: boolean
+
+  /**
+   * IPv4 or IPv6 CIDR ranges that are always allowed. Requests from
+   * these ranges skip all other rules.
+   *
+   * @default - none
+   */
+  readonly allowedIps?: string[]
+
+  /**
+   * IPv4 or IPv6 CIDR ranges that are always blocked.
+   *
+   * @default - none
+   */
+  readonly blockedIps?: string[]
+
+  /**
+   * Maximum number of requests per client IP in a 5 minute window. AWS
+   * WAF requires at least 10.
+   *
+   * @default - no rate limit
+   */
+  readonly rateLimit?: number
+
+  /**
+   * Maximum number of Server Action requests (POST requests with a
+   * `next-action` header) per client IP in a 5 minute window. Usually
+   * lower than `rateLimit`, as every Server Action invokes a server
+   * function. AWS WAF requires at least 10.
+   *
+   * @default - no rate limit
+   */
+  readonly serverActionRateLimit?: number
+}
+
+/**
+ * CloudFront real-time logs delivered to a Kinesis data stream.
+ */
+export interface RealtimeLogsProps {
+  /**
+   * The stream receiving the logs.
+   *
+   * @default - an on-demand stream is created
+   */
+  readonly stream?: IStream
+
+  /**
+   * The log fields, for example `["timestamp", "c-ip", "sc-status"]`.
+   *
+   * @default - timestamp, client IP, method, URI, status, time taken,
+   * edge result type, request ID and user agent
+   */
+  readonly fields?: string[]
+
+  /**
+   * Percentage of requests logged, between 1 and 100.
+   *
+   * @default 100
+   */
+  readonly samplingRate?: number
+}
+
+/**
+ * Access logging configuration for the distribution.
+ */
+export interface AccessLogsProps {
+  /**
+   * Bucket for the standard logs. CloudFront delivers logs with ACLs, so
+   * they must be enabled on the bucket.
+   *
+   * @default - a bucket is created
+   */
+  readonly bucket?: IBucket
+
+  /**
+   * Prefix of the standard log files.
+   *
+   * @default - no prefix
+   */
+  readonly prefix?: string
+
+  /**
+   * Delete standard logs from the created bucket after this duration.
+   * Manage the lifecycle of a supplied `bucket` yourself.
+   *
+   * @default - logs are kept
+   */
+  readonly expiration?: Duration
+
+  /**
+   * Whether cookies are included in the standard logs.
+   *
+   * @default false
+   */
+  readonly includeCookies?: boolean
+
+  /**
+   * Also send real-time logs to a Kinesis data stream.
+   *
+   * @default - no real-time logs
+   */
+  readonly realtime?: RealtimeLogsProps
+}
+
+/**
+ * Configuration for the CloudWatch dashboard and alarms of the site.
+ * Count thresholds are per 5 minute period.
+ */
+export interface MonitoringProps {
+  /**
+   * SNS topic notified when an alarm goes off or returns to OK.
+   *
+   * @default - no notifications
+   */
+  readonly alarmTopic?: ITopic
+
+  /**
+   * Name of the CloudWatch dashboard.
+   *
+   * @default - generated by CloudFormation
+   */
+  readonly dashboardName?: string
+
+  /**
+   * 5xx responses of a server function URL.
+   *
+   * @default 10
+   */
+  readonly serverErrorsThreshold?: number
+
+  /**
+   * Throttled invocations of a server function.
+   *
+   * @default 1
+   */
+  readonly serverThrottlesThreshold?: number
+
+  /**
+   * p99 duration of a server function.
+   *
+   * @default - 80% of the function timeout
+   */
+  readonly serverDurationThreshold?: Duration
+
+  /**
+   * Errors of the image optimizer function.
+   *
+   * @default 10
+   */
+  readonly imageOptimizerErrorsThreshold?: number
+
+  /**
+   * Age of the oldest message in the revalidation queue.
+   *
+   * @default Duration.minutes(5)
+   */
+  readonly revalidationQueueAgeThreshold?: Duration
+
+  /**
+   * Messages in the revalidation dead-letter queue.
+   *
+   * @default 1
+   */
+  readonly revalidationDeadLetterThreshold?: number
+
+  /**
+   * Throttled requests to the revalidation table.
+   *
+   * @default 1
+   */
+  readonly tableThrottlesThreshold?: number
+
+  /**
+   * CloudFront 5xx error rate in percent.
+   *
+   * CloudFront only publishes its metrics in us-east-1, so the CloudFront
+   * alarms are only created when the stack is deployed to us-east-1.
+   * From other regions the metrics are only shown on the dashboard.
+   *
+   * @default 5
+   */
+  readonly distribution5xxErrorRateThreshold?: number
+
+  /**
+   * Minimum CloudFront cache hit rate in percent. Like the 5xx error rate
+   * alarm, only created when the stack is deployed to us-east-1.
+   *
+   * @default - no alarm, the cache hit rate is only shown on the dashboard
+   */
+  readonly cacheHitRateThreshold?: number
+}
+
+/**
+ * A secret exposed to the server functions as an environment variable.
+ * Exactly one of `secret` and `parameter` must be set.
+ */
+export interface ServerSecret {
+  /** A Secrets Manager secret. */
+  readonly secret?: ISecret
+
+  /**
+   * The field of a JSON `secret` to use, for example `password`.
+   *
+   * @default - the whole secret string
+   */
+  readonly jsonField?: string
+
+  /** An SSM parameter, usually a SecureString. */
+  readonly parameter?: IParameter
+
+  /**
+   * The customer managed KMS key that encrypts a SecureString
+   * `parameter`, which the server functions are allowed to decrypt.
+   * Secrets Manager secrets grant their own key.
+   *
+   * @default - the AWS managed key
+   */
+  readonly encryptionKey?: IKey
+}
+
+/**
+ * Removal policies of the stateful resources, overriding
+ * `NextjsSiteProps.removalPolicy`.
+ */
+export interface StatefulRemovalPolicies {
+  /**
+   * Removal policy of the assets and cache bucket.
+   *
+   * @default - `removalPolicy`
+   */
+  readonly bucket?: RemovalPolicy
+
+  /**
+   * Removal policy of the revalidation table.
+   *
+   * @default - `removalPolicy`
+   */
+  readonly table?: RemovalPolicy
+
+  /**
+   * Removal policy of the revalidation queue and its dead-letter queue.
+   *
+   * @default - `removalPolicy`
+   */
+  readonly queue?: RemovalPolicy
+
+  /**
+   * Removal policy of the created access log bucket and real-time log
+   * stream.
+   *
+   * @default - `removalPolicy`
+   */
+  readonly logs?: RemovalPolicy
+}
+
+/**
+ * Source map configuration for the server functions.
+ */
+export interface SourceMapProps {
+  /**
+   * Move the `.map` files out of the server function bundles to
+   * `_sourcemaps/<origin>/` in the bucket, to keep the bundles small and
+   * let error trackers fetch them. The prefix is not served by
+   * CloudFront.
+   *
+   * `--enable-source-maps` is not set then, because the bundles have no
+   * maps left to apply.
+   *
+   * @default false
+   */
+  readonly uploadToBucket?: boolean
+}
+
+/**
+ * Configuration for the response headers policy applied to all
+ * behaviors.
+ */
+export interface ResponseHeadersProps {
+  /**
+   * Use this response headers policy for all behaviors. All other
+   * options are ignored when set.
+   */
+  readonly responseHeadersPolicy?: IResponseHeadersPolicy
+
+  /**
+   * Add the security headers preset, unless the origin already sets
+   * them: `Strict-Transport-Security` (two years, including
+   * subdomains), `X-Content-Type-Options: nosniff`,
+   * `Referrer-Policy: strict-origin-when-cross-origin` and
+   * `X-Frame-Options: SAMEORIGIN`.
+   *
+   * @default true
+   */
+  readonly securityHeaders?: boolean
+
+  /**
+   * Headers added to every response, overriding the origin.
+   *
+   * @default - none
+   */
+  readonly customHeaders?: Record<string, string>
+
+  /**
+   * Origins allowed to load the static assets under `_next/` with
+   * CORS, for example `["https://example.com"]`.
+   *
+   * @default - no CORS headers
+   */
+  readonly staticCorsAllowOrigins?: string[]
+
+  /**
+   * Headers removed from every response, for example
+   * `["server", "x-powered-by"]`.
+   *
+   * @default - none
+   */
+  readonly removeHeaders?: string[]
+}
+
+/**
+ * HTTP Basic auth enforced by the viewer request CloudFront function.
+ * The credentials are read from a key value store on every request, so
+ * they never appear in the function code and can be rotated without a
+ * deployment.
+ */
+export interface BasicAuthProps {
+  /**
+   * Secret with `username` and `password` JSON fields, copied to
+   * `keyValueStoreKey` in `NextjsSite.keyValueStore` by a custom resource.
+   * The key is written when the site is created or this changes, so
+   * credentials set in the store afterwards are kept. Cannot be combined
+   * with `keyValueStore`.
+   *
+   * @default - the credentials are set in the key value store by hand
+   */
+  readonly secret?: ISecret
+
+  /**
+   * Key value store holding the base64 encoded `username:password` under
+   * `keyValueStoreKey`. Requests are denied while the key is missing.
+   *
+   * @default - `NextjsSite.keyValueStore`, where `secret` is copied to,
+   * or where you set the key after the first deployment
+   */
+  readonly keyValueStore?: IKeyValueStore
+
+  /**
+   * The key holding the credentials in `keyValueStore`.
+   *
+   * @default "basic-auth"
+   */
+  readonly keyValueStoreKey?: string
+
+  /**
+   * Paths that do not require credentials. A trailing `*` matches any
+   * path with that prefix.
+   *
+   * @default - all paths require credentials
+   * @example
+   * excludePaths: ["/api/health", "/.well-known/*"]
+   */
+  readonly excludePaths?: string[]
+
+  /**
+   * The realm sent in the `WWW-Authenticate` header.
+   *
+   * @default "Restricted"
+   */
+  readonly realm?: string
+}
+
+/**
+ * Redirects and rewrites served by the viewer request CloudFront
+ * function from a CloudFront KeyValueStore.
+ */
+export interface EdgeRedirectsProps {
+  /**
+   * Path to a `.json` or `.csv` file with the redirects, loaded into the
+   * key value store at deploy time.
+   *
+   * JSON files contain an array of
+   * `{ "source": "/old", "destination": "/new", "status": 301 }` objects.
+   * CSV files contain `source,destination,status` lines, with an optional
+   * header line. `status` is 301, 302, 307, 308 or `rewrite`, and
+   * defaults to 301.
+   */
+  readonly file: string
+}
+
+/**
+ * Maintenance mode served by the CloudFront functions. The
+ * `maintenance` key in `NextjsSite.keyValueStore` turns it on (`on`) and
+ * off (`off`) without a deployment.
+ */
+export interface MaintenanceProps {
+  /**
+   * Whether maintenance mode is on after the deployment. The `maintenance`
+   * key is only written when the site is created or this changes, so a
+   * value set outside a deployment is kept until then.
+   *
+   * @default false
+   */
+  readonly enabled?: boolean
+
+  /**
+   * Path to the HTML file served with status 503 during maintenance.
+   * Other files are not deployed, so reference assets by absolute URL
+   * or inline them.
+   *
+   * @default - a plain built-in page
+   */
+  readonly page?: string
+
+  /**
+   * Viewer IP addresses that bypass maintenance mode.
+   *
+   * @default - none
+   */
+  readonly allowedIps?: string[]
+
+  /**
+   * Name of a cookie that bypasses maintenance mode when its value
+   * matches the `maintenance-bypass` key in the key value store.
+   *
+   * @default - no bypass cookie
+   */
+  readonly bypassCookieName?: string
+}
+
+/**
+ * JavaScript snippets added to the CloudFront functions created by the
+ * construct. Snippets run on the `cloudfront-js-1.0` runtime, or
+ * `cloudfront-js-2.0` when `basicAuth`, `redirects` or `maintenance` is
+ * set.
+ */
+export interface CloudFrontFunctionHooks {
+  /**
+   * Code run in the viewer request handler before the built-in logic,
+   * after the alternate domain name redirect and `basicAuth`. `event` and
+   * `request` are in scope, and the code may return a response or a
+   * modified request early.
+   *
+   * @default - none
+   * @example
+   * viewerRequestBefore: `
+   *   if (request.uri.length > 1 && request.uri.endsWith("/")) {
+   *     return { statusCode: 308, headers: { location: { value: request.uri.slice(0, -1) } } };
+   *   }
+   * `
+   */
+  readonly viewerRequestBefore?: string
+
+  /**
+   * Code run in the viewer request handler after the built-in logic,
+   * before `request` is returned.
+   *
+   * @default - none
+   */
+  readonly viewerRequestAfter?: string
+
+  /**
+   * Code run in a viewer response function associated with all
+   * behaviors. `event`, `request` and `response` are in scope, and
+   * `response` is returned afterwards.
+   *
+   * @default - no viewer response function
+   * @example
+   * viewerResponse: `
+   *   if (!request.cookies.variant) {
+   *     response.cookies.variant = { value: Math.random() < 0.5 ? "a" : "b" };
+   *   }
+   * `
+   */
+  readonly viewerResponse?: string
+}
+
+/**
+ * How cold starts of the server functions are mitigated.
+ */
+export enum ColdStartStrategy {
+  /** Keep instances warm by invoking them on a schedule. */
+  WARMER = "warmer",
+  /**
+   * Keep instances initialized with provisioned concurrency on an alias.
+   * No warmer resources are created.
+   */
+  PROVISIONED_CONCURRENCY = "provisioned-concurrency",
+}
+
+/**
+ * Cold start mitigation for the server functions.
+ *
+ * Lambda SnapStart does not support Node.js runtimes, so it is not an
+ * option here.
+ */
+export interface ColdStartProps {
+  /**
+   * The strategy to use.
+   *
+   * @default ColdStartStrategy.WARMER
+   */
+  readonly strategy?: ColdStartStrategy
+
+  /**
+   * Provisioned concurrency of each server function. With auto scaling,
+   * this is the minimum capacity.
+   *
+   * @default 1
+   */
+  readonly provisionedConcurrency?: number
+
+  /**
+   * Maximum provisioned concurrency of each server function. Enables
+   * Application Auto Scaling, which is required for
+   * `utilizationTarget` and `scheduledScaling`.
+   *
+   * @default - fixed provisioned concurrency
+   */
+  readonly maxProvisionedConcurrency?: number
+
+  /**
+   * Scale provisioned concurrency to keep its utilization at this
+   * target, between 0.1 and 0.9.
+   *
+   * @default - no target tracking
+   */
+  readonly utilizationTarget?: number
+
+  /**
+   * Scheduled changes of the capacity, keyed by a unique name.
+   *
+   * @default - no scheduled scaling
+   * @example
+   * scheduledScaling: {
+   *   BusinessHours: {
+   *     schedule: Schedule.cron({ hour: "8", minute: "0" }),
+   *     minCapacity: 10,
+   *   },
+   * }
+   */
+  readonly scheduledScaling?: Record<string, ScalingSchedule>
+}
+
+/**
+ * A schedule to warm the functions on, with its own concurrency.
+ */
+export interface WarmingWindow {
+  /**
+   * When to invoke the warmer. Cron expressions can have a time zone.
+   *
+   * @example
+   * ScheduleExpression.cron({
+   *   minute: "0/5",
+   *   hour: "8-18",
+   *   weekDay: "MON-FRI",
+   *   timeZone: TimeZone.EUROPE_BERLIN,
+   * })
+   */
+  readonly schedule: ScheduleExpression
+
+  /**
+   * The number of instances to keep warm, in the same format as
+   * `NextjsSiteProps.warm`.
+   */
+  readonly concurrency: number | Record<string, number>
+}
+
+export interface DistributionDomainProps {
+  /**
+   * The domain to be assigned to the website URL (ie. domain.com).
+   *
+   * Supports domains that are hosted either on [Route 53](https://aws.amazon.com/route53/) or externally.
+   */
+  readonly domainName: string
+
+  /**
+   * Import the underlying Route 53 hosted zone.
+   *
+   * Required if `certificate` is not provided. When provided, a DNS-validated
+   * certificate will be created automatically and DNS aliases will be set up.
+   */
+  readonly hostedZone?: IHostedZone
+
+  /**
+   * The ACM certificate to use for the custom domain.
+   *
+   * Required if `hostedZone` is not provided. The certificate must be in
+   * us-east-1 for CloudFront distributions.
+   *
+   * When provided without `hostedZone`, no DNS aliases will be created
+   * and you must configure DNS records externally.
+   */
+  readonly certificate?: ICertificate
+
+  /**
+   * Additional domain names for the website (ie. www.domain.com).
+   *
+   * They are added to the generated certificate as subject alternative
+   * names, so they must be in `hostedZone` as well. A provided
+   * `certificate` must cover them. DNS aliases are created for each
+   * name when `hostedZone` is provided.
+   *
+   * @default - no alternate names
+   */
+  readonly alternateNames?: string[]
+
+  /**
+   * Redirect requests for the alternate names to `domainName` with a
+   * 301, instead of serving the website on every name.
+   *
+   * @default false
+   */
+  readonly redirectAlternateNames?: boolean
+}
+
+/**
+ * Configuration for the cache policy used by the server origins.
+ */
+export interface ServerCachePolicyProps {
+  /**
+   * Use this cache policy for the server behaviors instead of
+   * `NextjsSite.serverCachePolicy`, which is still created from the other
+   * options.
+   */
+  readonly cachePolicy?: ICachePolicy
+
+  /**
+   * Headers to include in the cache key in addition to the headers
+   * Next.js needs (`accept`, `rsc`, `next-router-prefetch`, etc.).
+   * CloudFront allows 10 headers in a cache key and Next.js needs 7, so
+   * at most 3 can be added.
+   *
+   * @example ["x-tenant"]
+   */
+  readonly additionalHeaders?: string[]
+
+  /**
+   * Cookies to include in the cache key.
+   *
+   * @default - no cookies
+   * @example ["NEXT_LOCALE", "__prerender_bypass"]
+   */
+  readonly cookies?: string[]
+
+  /**
+   * The default amount of time for objects to stay in the CloudFront
+   * cache when the origin does not send caching headers.
+   *
+   * @default Duration.days(0)
+   */
+  readonly defaultTtl?: Duration
+
+  /**
+   * The minimum amount of time for objects to stay in the CloudFront cache.
+   *
+   * @default Duration.days(0)
+   */
+  readonly minTtl?: Duration
+
+  /**
+   * The maximum amount of time for objects to stay in the CloudFront cache.
+   *
+   * @default Duration.days(365)
+   */
+  readonly maxTtl?: Duration
+}
+
+/**
+ * Policies to use for a single distribution behavior instead of the
+ * construct defaults.
+ */
+export interface BehaviorPolicyOverrides {
+  /**
+   * The cache policy for this behavior.
+   *
+   * @default - `serverCachePolicy`, `staticCachePolicy` or `imageCachePolicy`,
+   * depending on the origin
+   */
+  readonly cachePolicy?: ICachePolicy
+
+  /**
+   * The origin request policy for this behavior.
+   *
+   * @default - OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER for server
+   * origins, none for the S3 origin
+   */
+  readonly originRequestPolicy?: IOriginRequestPolicy
+}
+
+export interface NextjsSiteProps {
+  /**
+   * The customDomain for this website. This domain must be hosted in
+   * route53, and we must be able to create an ACM certificate for this
+   * domain.
+   *
+   * Note that you can also migrate externally hosted domains to Route 53 by
+   * [following this guide](https://docs.aws.amazon.com/Route53/latest/DeveloperGuide/MigratingDNS.html).
+   */
+  readonly customDomain?: DistributionDomainProps
+
+  /**
+   * Should point to the .open-next directory.
+   *
+   * @default ".open-next"
+   */
+  readonly openNextPath?: string | undefined
+
+  /**
+   * Default props to apply to the server functions. These can be
+   * overridden per function in `functionProps`. The image optimizer is
+   * configured through `imageOptimization` instead.
+   *
+   * A `functionName` set here is only allowed when at most one server
+   * function inherits it; name the others in `functionProps`. A `role` or
+   * `logGroup` set here is shared by all server functions.
+   */
+  readonly defaultFunctionProps?: DefaultFunctionProps
+
+  /**
+   * Props for individual server functions, keyed by OpenNext origin name
+   * ("default" or the name of a split function in open-next.config.ts).
+   * Merged over `defaultFunctionProps`; environment variables are merged
+   * as well.
+   *
+   * @example
+   * functionProps: {
+   *   api: { memorySize: 2048, timeout: Duration.seconds(30) },
+   * }
+   */
+  readonly functionProps?: Record<string, DefaultFunctionProps>
+
+  /**
+   * Props for the Lambda@Edge functions created for OpenNext edge
+   * functions (external middleware).
+   *
+   * @default - Node.js 22, 1024 MB, 30 seconds
+   */
+  readonly edgeFunctionProps?: EdgeFunctionProps
+
+  /**
+   * Props for the Lambda@Edge function that signs request bodies when
+   * `protectServerFunctions` is `OAC_WITH_EDGE_SIGNING`.
+   *
+   * @default - Node.js 22, 128 MB, 5 seconds
+   */
+  readonly signingFunctionProps?: EdgeFunctionProps
+
+  /**
+   * VPC to place functions in. Which functions join the VPC is
+   * controlled by `vpcFunctions`.
+   */
+  readonly vpc?: IVpc
+
+  /**
+   * Where to place the functions within the VPC.
+   *
+   * @default - the Lambda default, private subnets
+   */
+  readonly vpcSubnets?: SubnetSelection
+
+  /**
+   * Security groups for the functions placed in the VPC.
+   *
+   * @default - a security group is created for each function
+   */
+  readonly securityGroups?: ISecurityGroup[]
+
+  /**
+   * Which functions to place in `vpc`. Functions that are not in the
+   * list keep running outside the VPC. Explicit VPC settings in
+   * `defaultFunctionProps`, `functionProps` or `imageOptimization` take
+   * precedence.
+   *
+   * @default [VpcFunction.SERVER]
+   */
+  readonly vpcFunctions?: VpcFunction[]
+
+  /**
+   * Create VPC endpoints so functions in private subnets without a NAT
+   * gateway can reach the cache: an S3 gateway endpoint, a DynamoDB
+   * gateway endpoint when the revalidation table is used, and an SQS
+   * interface endpoint when the revalidation queue is used.
+   *
+   * @default false
+   */
+  readonly createVpcEndpoints?: boolean
+
+  /**
+   * Configuration for the image optimization function. These props are
+   * not merged with `defaultFunctionProps`.
+   *
+   * The architecture must match the `imageOptimization.arch` OpenNext
+   * was built with, as sharp is bundled for that architecture.
+   *
+   * @example
+   * imageOptimization: {
+   *   memorySize: 2048,
+   *   timeout: Duration.seconds(30),
+   *   environment: { OPENNEXT_STATIC_ETAG: "true" },
+   * }
+   */
+  readonly imageOptimization?: ImageOptimizationProps
+
+  /**
+   * CloudWatch log group to use for the server, image optimizer, and
+   * revalidation functions. Can be overridden per-function via
+   * `defaultFunctionProps.logGroup`. Use `warmerLogGroup` for the
+   * warmer and pre-warmer functions.
+   */
+  readonly logGroup?: ILogGroup | undefined
+
+  /**
+   * Override the Cache-Control headers set on files copied to the
+   * bucket, keyed by the destination of the copy entry in
+   * open-next.output.json (for example "_assets").
+   *
+   * By default files in the versioned subdirectory are immutable, other
+   * cached files must be revalidated, and uncached files get no
+   * Cache-Control header.
+   *
+   * @example
+   * assetCacheControl: {
+   *   _assets: { unversioned: "public,max-age=60" },
+   * }
    */
-  readonly runtime?: Runtime
-}
+  readonly assetCacheControl?: Record<string, AssetCacheControl>
 
-export interface DistributionDomainProps {
   /**
-   * The domain to be assigned to the website URL (ie. domain.com).
+   * Extend or replace the cache policy used for the server origins.
    *
-   * Supports domains that are hosted either on [Route 53](https://aws.amazon.com/route53/) or externally.
+   * @example
+   * cachePolicy: {
+   *   additionalHeaders: ["x-tenant"],
+   *   cookies: ["NEXT_LOCALE"],
+   *   maxTtl: Duration.days(30),
+   * }
    */
-  readonly domainName: string
+  readonly cachePolicy?: ServerCachePolicyProps
 
   /**
-   * Import the underlying Route 53 hosted zone.
+   * Override the cache and origin request policies of individual
+   * distribution behaviors, keyed by the behavior pattern from
+   * open-next.output.json. Use "*" for the default behavior.
    *
-   * Required if `certificate` is not provided. When provided, a DNS-validated
-   * certificate will be created automatically and DNS aliases will be set up.
+   * Ignored when `createDistribution` is false.
+   *
+   * @example
+   * behaviorOverrides: {
+   *   "api/*": { cachePolicy: CachePolicy.CACHING_DISABLED },
+   * }
    */
-  readonly hostedZone?: IHostedZone
+  readonly behaviorOverrides?: Record<string, BehaviorPolicyOverrides>
 
   /**
-   * The ACM certificate to use for the custom domain.
+   * Add a response headers policy to all behaviors, with a security
+   * headers preset by default.
    *
-   * Required if `hostedZone` is not provided. The certificate must be in
-   * us-east-1 for CloudFront distributions.
+   * @default - no response headers policy
+   * @example
+   * responseHeaders: { removeHeaders: ["server", "x-powered-by"] }
+   */
+  readonly responseHeaders?: ResponseHeadersProps
+
+  /**
+   * Require HTTP Basic auth for all requests, for example on preview
+   * environments. Checked by the viewer request CloudFront function
+   * before any other logic, except the redirect of alternate domain
+   * names, so viewers only sign in on the primary domain.
    *
-   * When provided without `hostedZone`, no DNS aliases will be created
-   * and you must configure DNS records externally.
+   * @default - no authentication
+   * @example
+   * basicAuth: { secret, excludePaths: ["/api/health"] }
    */
-  readonly certificate?: ICertificate
-}
+  readonly basicAuth?: BasicAuthProps
 
-export interface NextjsSiteProps {
   /**
-   * The customDomain for this website. This domain must be hosted in
-   * route53, and we must be able to create an ACM certificate for this
-   * domain.
+   * Add custom logic to the viewer request function and an optional
+   * viewer response function, for example A/B cookie assignment or
+   * trailing slash redirects. The combined code of each function must
+   * stay within the 10 KB CloudFront Functions limit.
    *
-   * Note that you can also migrate externally hosted domains to Route 53 by
-   * [following this guide](https://docs.aws.amazon.com/Route53/latest/DeveloperGuide/MigratingDNS.html).
+   * @default - only the built-in logic
    */
-  readonly customDomain?: DistributionDomainProps
+  readonly cloudfrontFunctionHooks?: CloudFrontFunctionHooks
 
   /**
-   * Should point to the .open-next directory.
+   * Serve redirects and rewrites from a CloudFront KeyValueStore in the
+   * viewer request function, without invoking the server function.
+   * Sources are matched exactly against the request path.
    *
-   * @default ".open-next"
+   * @default - no edge redirects
+   * @example
+   * redirects: { file: "redirects.csv" }
    */
-  readonly openNextPath?: string | undefined
+  readonly redirects?: EdgeRedirectsProps
 
   /**
-   * Default props to apply to all Lambda functions created by this construct.
-   * These can be overridden by specific function configurations.
+   * Serve a static maintenance page with status 503 to all viewers while
+   * the `maintenance` key in `keyValueStore` is `on`, except allowed IP
+   * addresses and viewers with the bypass cookie. GET and HEAD requests
+   * get the page, other methods an empty 503 response.
+   *
+   * The page is fetched from the bucket origin through the behavior of the
+   * requested path, so that behavior's origin request policy and origin
+   * request Lambda@Edge functions still apply to it.
+   *
+   * @default - no maintenance mode
+   * @example
+   * maintenance: { allowedIps: ["203.0.113.10"], bypassCookieName: "maintenance-bypass" }
    */
-  readonly defaultFunctionProps?: DefaultFunctionProps
+  readonly maintenance?: MaintenanceProps
 
   /**
-   * CloudWatch log group to use for the server, image optimizer, and
-   * revalidation functions. Can be overridden per-function via
-   * `defaultFunctionProps.logGroup`. Use `warmerLogGroup` for the
-   * warmer and pre-warmer functions.
+   * Protect the server function URLs so they can only be invoked
+   * through CloudFront, using Origin Access Control.
+   *
+   * With `OAC`, clients must sign request bodies themselves. Use
+   * `OAC_WITH_EDGE_SIGNING` to have a Lambda@Edge function do that.
+   * Edge signing requires the stack to have an explicit region and
+   * cannot be used with `createDistribution: false`.
+   *
+   * @default ServerFunctionProtection.NONE
    */
-  readonly logGroup?: ILogGroup | undefined
+  readonly protectServerFunctions?: ServerFunctionProtection
 
   /**
    * The number of server instances to keep warm. Set to false to disable warming.
    * Must be a positive integer (>= 1) if specified. Values <= 0 will disable warming.
    *
+   * A number only warms the default server function. Pass a map of
+   * origin name to concurrency to warm other function origins and the
+   * image optimizer (`imageOptimizer`) as well.
+   *
    * @default 1
    * @example
    * warm: 5 // Keep 5 concurrent instances warm
    * warm: false // Disable warming
+   * warm: { default: 5, api: 2, imageOptimizer: 1 }
    */
-  readonly warm?: number | false
+  readonly warm?: number | false | Record<string, number>
 
   /**
    * How often to invoke the warmer function.
@@ -233,6 +1355,36 @@ export interface NextjsSiteProps {
    */
   readonly warmerInterval?: Duration
 
+  /**
+   * Use provisioned concurrency instead of the warmer to mitigate cold
+   * starts of the server functions. The function URLs then point to an
+   * alias with provisioned concurrency, and `warm`, `warmerInterval`,
+   * `warmingWindows` and `prewarmOnDeploy` are ignored.
+   *
+   * @default - the warmer is used
+   * @example
+   * coldStart: {
+   *   strategy: ColdStartStrategy.PROVISIONED_CONCURRENCY,
+   *   provisionedConcurrency: 2,
+   *   maxProvisionedConcurrency: 10,
+   *   utilizationTarget: 0.7,
+   * }
+   */
+  readonly coldStart?: ColdStartProps
+
+  /**
+   * Warm with a different concurrency at different times, for example
+   * more instances during business hours than overnight. Each window
+   * gets its own warmer function invoked by EventBridge Scheduler.
+   *
+   * Replaces the `warmerInterval` schedule. `warm` is still used for
+   * pre-warming on deploy, so with `prewarmOnDeploy: false` only the
+   * window warmers are created. `warm: false` disables all warming.
+   *
+   * @default - warm with `warm` every `warmerInterval`
+   */
+  readonly warmingWindows?: WarmingWindow[]
+
   /**
    * Whether to invoke the warmer function immediately after deployment.
    *
@@ -248,13 +1400,136 @@ export interface NextjsSiteProps {
    */
   readonly warmerLogGroup?: ILogGroup | undefined
 
+  /**
+   * Shift traffic to new server function versions gradually with
+   * CodeDeploy instead of replacing them for all users at once.
+   *
+   * Each server function gets a published version and an alias, and
+   * its function URL points to the alias. Deployments are rolled back
+   * automatically when they fail or one of the alarms goes off.
+   *
+   * @default - function URLs point to `$LATEST`
+   * @example
+   * deployment: {
+   *   deploymentConfig: LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE,
+   * }
+   */
+  readonly deployment?: ServerDeploymentProps
+
+  /**
+   * Protect the distribution with AWS WAF. Web ACLs for CloudFront
+   * live in us-east-1, so a created web ACL is deployed to a separate
+   * us-east-1 stack when this stack is in another region. Requires the
+   * distribution to be created by this construct.
+   *
+   * @default - no web ACL
+   * @example
+   * waf: { rateLimit: 2000, serverActionRateLimit: 100 }
+   */
+  readonly waf?: WafProps
+
+  /**
+   * Create a CloudWatch dashboard and alarms for the server functions,
+   * image optimizer, revalidation queue and table, and distribution.
+   *
+   * This enables additional CloudFront metrics (which are billed) for
+   * the cache hit rate, and adds a dead-letter queue to the revalidation
+   * queue. CloudFront metrics only exist in us-east-1, so CloudFront
+   * alarms are only created when the stack is in us-east-1.
+   *
+   * @default - no monitoring
+   * @example
+   * monitoring: { alarmTopic: topic, serverErrorsThreshold: 5 }
+   */
+  readonly monitoring?: MonitoringProps
+
+  /**
+   * Log the requests to the distribution to S3 and, optionally, to a
+   * Kinesis data stream in real time.
+   *
+   * @default - no access logs
+   * @example
+   * accessLogs: { prefix: "cloudfront/", expiration: Duration.days(90), realtime: {} }
+   */
+  readonly accessLogs?: AccessLogsProps
+
+  /**
+   * Source map support for the server functions. By default, stack
+   * traces are mapped back to the sources with
+   * `NODE_OPTIONS=--enable-source-maps`, using the `.map` files in the
+   * bundles. Build with source maps enabled in `next.config.js` for
+   * them to exist.
+   *
+   * @default - source maps are not used
+   * @example
+   * sourcemaps: { uploadToBucket: true }
+   */
+  readonly sourcemaps?: SourceMapProps
+
+  /**
+   * Environment variables of the server functions resolved from Secrets
+   * Manager or SSM Parameter Store, keyed by variable name. The values
+   * are fetched once per cold start, before the server is loaded, so
+   * they never appear in the template. New values reach instances
+   * started after the change.
+   *
+   * The server functions get the AWS Parameters and Secrets Lambda
+   * Extension, unless `paramsAndSecrets` is set in their function props.
+   * Failed requests are retried, and a value that still can't be resolved,
+   * or a missing `jsonField`, fails the cold start with an error naming
+   * the variable.
+   *
+   * @default - none
+   * @example
+   * secrets: {
+   *   DATABASE_PASSWORD: { secret: dbSecret, jsonField: "password" },
+   *   STRIPE_KEY: { parameter: stripeKeyParameter },
+   * }
+   */
+  readonly secrets?: Record<string, ServerSecret>
+
+  /**
+   * Removal policy of the stateful resources: the bucket, and the
+   * revalidation table and queue. With any policy other than DESTROY,
+   * the objects in the bucket are no longer deleted with the stack, so
+   * the ISR cache survives an accidental stack deletion.
+   *
+   * The resources only accept DESTROY and RETAIN. None of them supports
+   * snapshots, so SNAPSHOT retains them.
+   *
+   * @default RemovalPolicy.DESTROY
+   */
+  readonly removalPolicy?: RemovalPolicy
+
+  /**
+   * Removal policies per stateful resource, overriding `removalPolicy`.
+   *
+   * @default - `removalPolicy` for every resource
+   * @example
+   * removalPolicies: { table: RemovalPolicy.RETAIN }
+   */
+  readonly removalPolicies?: StatefulRemovalPolicies
+
+  /**
+   * Invalidate the CloudFront cache after the static assets and
+   * functions have been updated, so cached HTML and RSC payloads from
+   * the previous build are not served. Requires the distribution to be
+   * created by this construct.
+   *
+   * @default - no invalidation
+   * @example
+   * invalidation: { paths: ["/*"], wait: true }
+   */
+  readonly invalidation?: InvalidationProps
+
   /**
    * Whether to create a CloudFront distribution.
    *
    * Set to `false` for headless mode: all compute and storage
    * resources are created but no distribution. Use the exposed
-   * `origins`, `behaviors`, `serverCachePolicy`, and
-   * `staticCachePolicy` to wire up your own distribution.
+   * `origins`, `behaviors`, `serverBehaviorCachePolicy`,
+   * `staticCachePolicy` and `imageCachePolicy` to wire up your own
+   * distribution.
    *
    * When false, `customDomain` is ignored and the `distribution`,
    * `url`, and `customDomainUrl` accessors throw.
@@ -268,7 +1543,7 @@ export interface NextjsSiteProps {
    * new Distribution(this, 'Cdn', {
    *   defaultBehavior: {
    *     origin: site.origins.default,
-   *     cachePolicy: site.serverCachePolicy,
+   *     cachePolicy: site.serverBehaviorCachePolicy,
    *   },
    * })
    */
@@ -289,12 +1564,51 @@ export class NextjsSite extends Construct {
    */
   public readonly behaviors: OpenNextBehavior[]
 
-  /** Cache policy for server/SSR origins (dynamic content). */
+  /**
+   * Server functions keyed by OpenNext origin name. Always includes
+   * "default", plus any additional function origins from
+   * open-next.output.json.
+   */
+  public readonly serverFunctions: Record<string, CdkFunction>
+
+  /**
+   * Aliases of the server functions keyed by OpenNext origin name.
+   * Empty unless `deployment` is set.
+   */
+  public readonly serverFunctionAliases: Record<string, Alias>
+
+  /** Cache policy created for server/SSR origins (dynamic content). */
   public readonly serverCachePolicy: CachePolicy
 
+  /**
+   * Cache policy used by the server behaviors. This is
+   * `cachePolicy.cachePolicy` when provided, otherwise `serverCachePolicy`.
+   */
+  public readonly serverBehaviorCachePolicy: ICachePolicy
+
   /** Cache policy for static/S3 origins. Currently CACHING_OPTIMIZED. */
   public readonly staticCachePolicy: ICachePolicy
 
+  /**
+   * Cache policy for the image optimizer origin. This is
+   * `imageOptimization.cachePolicy` when provided.
+   */
+  public readonly imageCachePolicy: ICachePolicy
+
+  /**
+   * Response headers policy for all behaviors, except static assets
+   * under `_next/` when `responseHeaders.staticCorsAllowOrigins` is set.
+   * Undefined unless `responseHeaders` is set.
+   */
+  public readonly responseHeadersPolicy: IResponseHeadersPolicy | undefined
+
+  /**
+   * Response headers policy for the static assets under `_next/`. The
+   * same as `responseHeadersPolicy`, plus CORS headers when
+   * `responseHeaders.staticCorsAllowOrigins` is set.
+   */
+  public readonly staticResponseHeadersPolicy: IResponseHeadersPolicy | undefined
+
   /**
    * The CloudFront distribution, only created if
    * createDistribution is not false.
@@ -304,18 +1618,65 @@ export class NextjsSite extends Construct {
   /** The S3 bucket used for static assets and cache. */
   public readonly bucket: Bucket
 
+  /**
+   * Lambda@Edge functions keyed by name, created from the
+   * `edgeFunctions` in open-next.output.json. Empty unless OpenNext
+   * was configured with external middleware.
+   */
+  public readonly edgeFunctions: Record<string, experimental.EdgeFunction>
+
   /** The function URL of the default server function. */
   public defaultFunctionUrl!: FunctionUrl
 
+  /**
+   * The web ACL created for the distribution. Undefined unless `waf`
+   * is set without `webAclArn`.
+   */
+  public readonly webAcl?: CfnWebACL
+
+  /**
+   * The bucket receiving the standard access logs. Undefined unless
+   * `accessLogs` is set.
+   */
+  public readonly accessLogBucket?: IBucket
+
+  /**
+   * The stream receiving the real-time logs. Undefined unless
+   * `accessLogs.realtime` is set.
+   */
+  public readonly realtimeLogStream?: IStream
+
+  /** The monitoring dashboard. Undefined unless `monitoring` is set. */
+  public readonly dashboard?: Dashboard
+
+  /** Alarms created for `monitoring`. */
+  public readonly monitoringAlarms: Alarm[] = []
+
+  /**
+   * The key value store holding the edge redirects, the maintenance mode
+   * flag and the basic auth credentials. Undefined unless `redirects`,
+   * `maintenance` or `basicAuth` without its own store is set.
+   *
+   * Deployments update the redirect keys, which start with /, in place and
+   * keep the store and other keys. `maintenance.enabled` and
+   * `basicAuth.secret` are only written when they change.
+   */
+  public readonly keyValueStore?: KeyValueStore
+
   private openNextOutput: OpenNextOutput
+  private keyValueStoreSync?: CustomResource
   private readonly serverOrigins: OpenNextFunctionOrigin[]
   private table?: Table
   private queue?: Queue
+  private revalidationDeadLetterQueue?: Queue
 
   private openNextPath: string
   private _defaultServerFunction!: CdkFunction
+  private imageOptimizerFunction!: CdkFunction
+  private readonly bucketDeployments: BucketDeployment[] = []
   private _customDomainName?: string
   private warmerFunction?: CdkFunction
+  private secretsLayer?: LayerVersion
   private props: NextjsSiteProps
 
   public get defaultServerFunction(): CdkFunction {
@@ -348,18 +1709,27 @@ export class NextjsSite extends Construct {
    * Returns the CloudFront Function code string that injects
    * x-forwarded-host and geo headers. Use this when creating your
    * own distribution with NextjsSite origins.
+   *
+   * With `basicAuth`, `redirects` or `maintenance`, the code must run on
+   * the `cloudfront-js-2.0` runtime with that key value store associated.
    */
   public get cloudfrontFunctionCode(): string {
     return this.buildCloudfrontFunctionCode()
   }
 
+  /**
+   * Returns the viewer response CloudFront Function code string, or
+   * undefined when `cloudfrontFunctionHooks.viewerResponse` is not set.
+   */
+  public get cloudfrontResponseFunctionCode(): string | undefined {
+    return this.buildCloudfrontResponseFunctionCode()
+  }
+
   constructor(scope: Construct, id: string, props: NextjsSiteProps) {
     super(scope, id)
     this.props = props
     this.openNextPath = props.openNextPath ?? ".open-next"
-    this.openNextOutput = JSON.parse(
-      readFileSync(path.join(this.openNextPath, "open-next.output.json"), "utf-8")
-    ) as OpenNextOutput
+    this.openNextOutput = loadOpenNextOutput(this.openNextPath)
     this.serverOrigins = this.collectServerOrigins()
 
     this._customDomainName = props.customDomain?.domainName
@@ -375,22 +1745,243 @@ export class NextjsSite extends Construct {
 
     // Validate customDomain props: either certificate or hostedZone must be provided
     if (
-      props.customDomain &&
-      !props.customDomain.certificate &&
-      !props.customDomain.hostedZone
+      props.customDomain &&
+      !props.customDomain.certificate &&
+      !props.customDomain.hostedZone
+    ) {
+      throw new Error(
+        "customDomain requires either a certificate or a hostedZone. " +
+          "Provide a hostedZone to automatically create a DNS-validated certificate, " +
+          "or provide your own certificate."
+      )
+    }
+
+    const inheritedFunctionName = Object.keys(this.openNextOutput.origins).filter(
+      (key) => this.isServerOrigin(key) && !props.functionProps?.[key]?.functionName
+    )
+    if (props.defaultFunctionProps?.functionName && inheritedFunctionName.length > 1) {
+      throw new Error(
+        "defaultFunctionProps.functionName would give the server functions " +
+          `${inheritedFunctionName.join(", ")} the same name. ` +
+          "Set functionName per function in functionProps instead."
+      )
+    }
+
+    const unknownFunctionProps = Object.keys(props.functionProps ?? {}).filter(
+      (key) => !this.isServerOrigin(key)
+    )
+    if (unknownFunctionProps.length > 0) {
+      const serverOriginNames = Object.keys(this.openNextOutput.origins).filter((key) =>
+        this.isServerOrigin(key)
+      )
+      throw new Error(
+        `functionProps contains unknown server origins: ${unknownFunctionProps.join(", ")}. ` +
+          `Known server origins: ${serverOriginNames.join(", ")}`
+      )
+    }
+
+    const unknownWarmOrigins = [
+      props.warm,
+      ...(props.warmingWindows ?? []).map((window) => window.concurrency),
+    ].flatMap((concurrency) =>
+      typeof concurrency === "object"
+        ? Object.keys(concurrency).filter(
+            (key) => key !== "imageOptimizer" && !this.isServerOrigin(key)
+          )
+        : []
+    )
+    if (unknownWarmOrigins.length > 0) {
+      const warmableOriginNames = Object.keys(this.openNextOutput.origins).filter(
+        (key) => key === "imageOptimizer" || this.isServerOrigin(key)
+      )
+      throw new Error(
+        `warm contains unknown function origins: ${[...new Set(unknownWarmOrigins)].join(", ")}. ` +
+          `Known function origins: ${warmableOriginNames.join(", ")}`
+      )
+    }
+
+    const coldStart = props.coldStart
+    if (
+      coldStart?.maxProvisionedConcurrency === undefined &&
+      (coldStart?.utilizationTarget !== undefined || coldStart?.scheduledScaling)
+    ) {
+      throw new Error(
+        "coldStart.utilizationTarget and coldStart.scheduledScaling require " +
+          "coldStart.maxProvisionedConcurrency."
+      )
+    }
+
+    const ignoredOptions = this.usesProvisionedConcurrency()
+      ? [
+          props.warm !== undefined ? "warm" : undefined,
+          props.warmerInterval ? "warmerInterval" : undefined,
+          props.warmingWindows ? "warmingWindows" : undefined,
+          props.prewarmOnDeploy !== undefined ? "prewarmOnDeploy" : undefined,
+        ]
+      : [
+          coldStart?.provisionedConcurrency !== undefined
+            ? "coldStart.provisionedConcurrency"
+            : undefined,
+          coldStart?.maxProvisionedConcurrency !== undefined
+            ? "coldStart.maxProvisionedConcurrency"
+            : undefined,
+          coldStart?.utilizationTarget !== undefined
+            ? "coldStart.utilizationTarget"
+            : undefined,
+          coldStart?.scheduledScaling ? "coldStart.scheduledScaling" : undefined,
+        ]
+    if (ignoredOptions.some(Boolean)) {
+      Annotations.of(this).addWarning(
+        `Ignoring ${ignoredOptions.filter(Boolean).join(", ")}: ` +
+          (this.usesProvisionedConcurrency()
+            ? "ColdStartStrategy.PROVISIONED_CONCURRENCY replaces the warmer for all " +
+              "server functions and does not warm the image optimizer."
+            : "these options only apply to ColdStartStrategy.PROVISIONED_CONCURRENCY.")
+      )
+    }
+
+    if ((props.redirects || props.maintenance) && props.basicAuth?.keyValueStore) {
+      throw new Error(
+        "redirects and maintenance cannot be combined with basicAuth.keyValueStore, " +
+          "because a CloudFront function can only be associated with one key value " +
+          "store. Store the credentials in NextjsSite.keyValueStore instead."
+      )
+    }
+
+    if (props.basicAuth?.secret && props.basicAuth.keyValueStore) {
+      throw new Error(
+        "basicAuth.secret cannot be combined with basicAuth.keyValueStore, because " +
+          "the secret is copied to NextjsSite.keyValueStore."
+      )
+    }
+
+    if (props.createDistribution === false && props.maintenance) {
+      throw new Error(
+        "maintenance cannot be used when createDistribution is false, because it " +
+          "selects the S3 origin of the distribution created by this construct."
+      )
+    }
+
+    if (props.redirects && props.basicAuth?.keyValueStoreKey?.startsWith("/")) {
+      throw new Error(
+        "basicAuth.keyValueStoreKey cannot start with / when redirects is set, " +
+          "because keys starting with / are redirect sources."
+      )
+    }
+
+    if (
+      props.redirects ||
+      props.maintenance ||
+      (props.basicAuth && !props.basicAuth.keyValueStore)
+    ) {
+      this.keyValueStore = new KeyValueStore(this, "KeyValueStore")
+      if (props.redirects || props.maintenance || props.basicAuth?.secret) {
+        this.keyValueStoreSync = this.createKeyValueStoreSync(this.keyValueStore, props)
+      }
+    }
+
+    this.validateCloudfrontFunctionSize(
+      "viewer request",
+      this.buildCloudfrontFunctionCode()
+    )
+    this.validateCloudfrontFunctionSize(
+      "viewer response",
+      this.buildCloudfrontResponseFunctionCode()
+    )
+
+    for (const [name, secret] of Object.entries(props.secrets ?? {})) {
+      if (!secret.secret === !secret.parameter) {
+        throw new Error(`secrets.${name} requires exactly one of secret and parameter.`)
+      }
+      if (secret.jsonField !== undefined && !secret.secret) {
+        throw new Error(`secrets.${name}.jsonField can only be used with secret.`)
+      }
+    }
+
+    if (
+      [props.removalPolicy, ...Object.values(props.removalPolicies ?? {})].includes(
+        RemovalPolicy.SNAPSHOT
+      )
+    ) {
+      Annotations.of(this).addWarning(
+        "The bucket, table, queue and log resources do not support " +
+          "RemovalPolicy.SNAPSHOT. They are retained instead."
+      )
+    }
+
+    if (props.createDistribution === false && props.invalidation) {
+      throw new Error(
+        "invalidation cannot be used when createDistribution is false. " +
+          "Invalidate your own distribution instead."
+      )
+    }
+
+    if (props.createDistribution === false && props.accessLogs) {
+      throw new Error(
+        "accessLogs cannot be used when createDistribution is false. " +
+          "Configure logging on your own distribution instead."
+      )
+    }
+
+    if (props.accessLogs?.bucket && props.accessLogs.expiration) {
+      throw new Error(
+        "accessLogs.expiration cannot be combined with accessLogs.bucket. " +
+          "Add a lifecycle rule to your bucket instead."
+      )
+    }
+
+    if (
+      props.createDistribution === false &&
+      props.protectServerFunctions === ServerFunctionProtection.OAC_WITH_EDGE_SIGNING
+    ) {
+      throw new Error(
+        "ServerFunctionProtection.OAC_WITH_EDGE_SIGNING cannot be used when " +
+          "createDistribution is false, because the signing function is attached " +
+          "to the distribution. Use ServerFunctionProtection.OAC instead."
+      )
+    }
+
+    if (props.createDistribution === false && props.waf) {
+      throw new Error(
+        "waf cannot be used when createDistribution is false. " +
+          "Attach the web ACL to your own distribution instead."
+      )
+    }
+
+    if (
+      props.waf?.webAclArn &&
+      Object.entries(props.waf).some(
+        ([key, value]) => key !== "webAclArn" && value !== undefined
+      )
+    ) {
+      throw new Error("waf.webAclArn cannot be combined with other waf options.")
+    }
+
+    for (const key of ["rateLimit", "serverActionRateLimit"] as const) {
+      const limit = props.waf?.[key]
+      if (limit !== undefined && !(Number.isInteger(limit) && limit >= 10)) {
+        throw new Error(
+          `waf.${key} must be an integer of at least 10, the AWS WAF minimum ` +
+            `for rate-based rules, but is ${limit}.`
+        )
+      }
+    }
+
+    if (
+      !props.vpc &&
+      (props.vpcSubnets || props.securityGroups || props.createVpcEndpoints)
     ) {
       throw new Error(
-        "customDomain requires either a certificate or a hostedZone. " +
-          "Provide a hostedZone to automatically create a DNS-validated certificate, " +
-          "or provide your own certificate."
+        "vpcSubnets, securityGroups and createVpcEndpoints require vpc to be set."
       )
     }
 
+    const bucketRemovalPolicy = this.getRemovalPolicy("bucket")
     this.bucket = new Bucket(this, "S3Bucket", {
       publicReadAccess: false,
       blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
-      autoDeleteObjects: true,
-      removalPolicy: RemovalPolicy.DESTROY,
+      autoDeleteObjects: bucketRemovalPolicy === RemovalPolicy.DESTROY,
+      removalPolicy: bucketRemovalPolicy,
       enforceSSL: true,
     })
     this.table = this.needsRevalidationTable()
@@ -404,45 +1995,89 @@ export class NextjsSite extends Construct {
     const certificate =
       props.customDomain?.certificate ??
       (props.customDomain?.hostedZone
-        ? this.createCertificate(
-            props.customDomain.domainName,
-            props.customDomain.hostedZone
-          )
+        ? this.createCertificate(props.customDomain, props.customDomain.hostedZone)
         : undefined)
 
-    this.origins = this.createOrigins(props.defaultFunctionProps)
+    this.serverFunctions = {}
+    this.serverFunctionAliases = {}
+    this.origins = this.createOrigins()
+    this.edgeFunctions = this.createEdgeFunctions()
     this.serverCachePolicy = this.createServerCachePolicy()
+    this.serverBehaviorCachePolicy =
+      props.cachePolicy?.cachePolicy ?? this.serverCachePolicy
     this.staticCachePolicy = this.createStaticCachePolicy()
+    this.imageCachePolicy = this.createImageCachePolicy()
+    this.responseHeadersPolicy = props.responseHeaders
+      ? (props.responseHeaders.responseHeadersPolicy ??
+        this.createResponseHeadersPolicy("ResponseHeadersPolicy", props.responseHeaders))
+      : undefined
+    this.staticResponseHeadersPolicy =
+      props.responseHeaders?.staticCorsAllowOrigins &&
+      !props.responseHeaders.responseHeadersPolicy
+        ? this.createResponseHeadersPolicy(
+            "StaticResponseHeadersPolicy",
+            props.responseHeaders,
+            props.responseHeaders.staticCorsAllowOrigins
+          )
+        : this.responseHeadersPolicy
 
     // Create distribution and DNS records only if createDistribution is not false
     if (props.createDistribution !== false) {
+      if (props.waf && !props.waf.webAclArn) {
+        this.webAcl = this.createWebAcl(props.waf)
+      }
+      if (props.accessLogs?.realtime) {
+        this.realtimeLogStream =
+          props.accessLogs.realtime.stream ?? this.createRealtimeLogStream()
+      }
+      if (props.accessLogs) {
+        this.accessLogBucket =
+          props.accessLogs.bucket ?? this.createAccessLogBucket(props.accessLogs)
+      }
       this.distribution = this.createDistribution(this.origins, props, certificate)
 
       if (props.customDomain && props.customDomain.hostedZone) {
-        new ARecord(this, "AliasRecord", {
-          zone: props.customDomain.hostedZone,
-          recordName: props.customDomain.domainName,
-          target: RecordTarget.fromAlias(new CloudFrontTarget(this.distribution)),
-        })
+        const { domainName, alternateNames = [], hostedZone } = props.customDomain
+        for (const recordName of [domainName, ...alternateNames]) {
+          // The records of the primary domain keep their original IDs
+          const idSuffix = recordName === domainName ? "" : recordName
+          new ARecord(this, `AliasRecord${idSuffix}`, {
+            zone: hostedZone,
+            recordName,
+            target: RecordTarget.fromAlias(new CloudFrontTarget(this.distribution)),
+          })
 
-        new AaaaRecord(this, "AliasRecordAAAA", {
-          zone: props.customDomain.hostedZone,
-          recordName: props.customDomain.domainName,
-          target: RecordTarget.fromAlias(new CloudFrontTarget(this.distribution)),
-        })
+          new AaaaRecord(this, `AliasRecordAAAA${idSuffix}`, {
+            zone: hostedZone,
+            recordName,
+            target: RecordTarget.fromAlias(new CloudFrontTarget(this.distribution)),
+          })
+        }
       }
     } else {
       this.distribution = undefined
     }
 
     this.createWarmer()
+    if (this.distribution && props.invalidation) {
+      this.createInvalidation(this.distribution, props.invalidation)
+    }
+    if (props.vpc && props.createVpcEndpoints) {
+      this.createVpcEndpoints(props.vpc)
+    }
+    if (props.monitoring) {
+      this.dashboard = this.createMonitoring(props.monitoring)
+    }
   }
 
-  private createCertificate(domainName: string, hostedZone: IHostedZone) {
+  private createCertificate(domain: DistributionDomainProps, hostedZone: IHostedZone) {
     // CloudFront requires certificates to be in us-east-1
     // DnsValidatedCertificate handles cross-region certificate creation automatically
     return new DnsValidatedCertificate(this, "Certificate", {
-      domainName,
+      domainName: domain.domainName,
+      subjectAlternativeNames: domain.alternateNames?.length
+        ? domain.alternateNames
+        : undefined,
       hostedZone,
       region: "us-east-1",
     })
@@ -463,7 +2098,7 @@ export class NextjsSite extends Construct {
           sortKey: { name: "revalidatedAt", type: AttributeType.NUMBER },
         },
       ],
-      removalPolicy: RemovalPolicy.DESTROY,
+      removalPolicy: this.getRemovalPolicy("table"),
     })
 
     const initFn = this.openNextOutput.additionalProps?.initializationFunction
@@ -481,6 +2116,7 @@ export class NextjsSite extends Construct {
       memorySize: 128,
       loggingFormat: LoggingFormat.JSON,
       logGroup: this.props.logGroup,
+      ...this.getVpcProps(VpcFunction.INITIALIZATION),
       environment: {
         CACHE_DYNAMO_TABLE: table.tableName,
       },
@@ -507,47 +2143,218 @@ export class NextjsSite extends Construct {
     return table
   }
 
-  private createOrigins(defaultFunctionProps?: DefaultFunctionProps) {
+  private createOrigins() {
     const {
       s3: s3Origin,
       default: defaultOrigin,
       imageOptimizer: imageOrigin,
       ...restOrigins
     } = this.openNextOutput.origins
-    for (const copy of s3Origin.copy) {
-      new BucketDeployment(this, `OpenNextBucketDeployment${copy.from}`, {
-        sources: [Source.asset(path.join(this.openNextPath, "..", copy.from))],
-        destinationBucket: this.bucket,
-        destinationKeyPrefix: copy.to,
-        prune: false,
-      })
+    this.deployStaticAssets(s3Origin)
+    if (this.props.maintenance) {
+      this.deployMaintenancePage(s3Origin, this.props.maintenance)
     }
     const origins = {
       s3: S3BucketOrigin.withOriginAccessControl(this.bucket, {
         originId: "S3Bucket",
         originPath: s3Origin.originPath,
       }),
-      default: this.createFunctionOrigin(
-        "default",
-        defaultOrigin,
-        "NextJsServer",
-        defaultFunctionProps
-      ),
+      default: this.createFunctionOrigin("default", defaultOrigin, "NextJsServer"),
       imageOptimizer: this.createImageOptimizerOrigin(imageOrigin),
       ...Object.entries(restOrigins).reduce(
         (acc, [key, value]) => {
           const originId = key.charAt(0).toUpperCase() + key.slice(1)
           if (value.type === "function") {
             acc[key] = this.createFunctionOrigin(key, value, originId)
+          } else {
+            Annotations.of(this).addWarning(
+              `Origin '${key}' in open-next.output.json has type '${value.type}', ` +
+                "which this construct does not deploy. Add it to your own distribution."
+            )
           }
           return acc
         },
-        {} as Record<string, HttpOrigin>
+        {} as Record<string, IOrigin>
       ),
     }
     return origins
   }
 
+  /**
+   * Creates a Lambda@Edge function for every edge function (external
+   * middleware) in open-next.output.json. CloudFront only accepts
+   * Lambda@Edge functions from us-east-1, so they are deployed through
+   * a separate stack when this stack lives in another region.
+   */
+  private createEdgeFunctions() {
+    const edgeFunctions = Object.entries(this.openNextOutput.edgeFunctions ?? {})
+    if (edgeFunctions.length === 0) {
+      return {}
+    }
+
+    const stack = Stack.of(this)
+    const edgeStack = this.getUsEast1Stack("OpenNext edge functions")
+    const defaultOrigin = this.openNextOutput.origins.default
+    const edgeProps = this.props.edgeFunctionProps
+    return edgeFunctions.reduce(
+      (acc, [key, edgeFunction]) => {
+        // Each function gets its own role next to it. The grants reference
+        // resources in this stack, so outside us-east-1 they are added to
+        // a policy here, attached through the role's generated name.
+        const crossRegion = edgeStack !== stack
+        const role = new Role(crossRegion ? edgeStack : this, `${key}EdgeFunctionRole`, {
+          roleName: crossRegion ? PhysicalName.GENERATE_IF_NEEDED : undefined,
+          assumedBy: new ServicePrincipal("lambda.amazonaws.com"),
+          managedPolicies: [
+            ManagedPolicy.fromAwsManagedPolicyName(
+              "service-role/AWSLambdaBasicExecutionRole"
+            ),
+          ],
+        })
+        this.grantServerPermissions(
+          crossRegion
+            ? Role.fromRoleName(this, `${key}EdgeFunctionGrantRole`, role.roleName)
+            : role,
+          defaultOrigin
+        )
+
+        acc[key] = new experimental.EdgeFunction(this, `${key}EdgeFunction`, {
+          description: `Next.js edge function ${key}`,
+          handler: edgeFunction.handler,
+          code: Code.fromAsset(path.join(this.openNextPath, "..", edgeFunction.bundle)),
+          runtime: edgeProps?.runtime ?? Runtime.NODEJS_22_X,
+          architecture: Architecture.X86_64,
+          memorySize: edgeProps?.memorySize ?? 1024,
+          timeout: edgeProps?.timeout ?? Duration.seconds(30),
+          role,
+          stackId: crossRegion ? edgeStack.node.id : undefined,
+        })
+        return acc
+      },
+      {} as Record<string, experimental.EdgeFunction>
+    )
+  }
+
+  /**
+   * Returns the stack for resources CloudFront requires in us-east-1:
+   * this stack when it is in us-east-1, otherwise a companion stack in
+   * us-east-1 shared by all sites in this stack.
+   */
+  private getUsEast1Stack(feature: string) {
+    const stack = Stack.of(this)
+    if (Token.isUnresolved(stack.region)) {
+      throw new Error(`${feature} require the stack to have an explicit region.`)
+    }
+    if (stack.region === "us-east-1") {
+      return stack
+    }
+
+    const stage = Stage.of(this)
+    if (!stage) {
+      throw new Error(`${feature} require the stack to be part of an app.`)
+    }
+    const edgeStackId = `${Names.uniqueId(stack)}UsEast1`
+    return (
+      (stage.node.tryFindChild(edgeStackId) as Stack | undefined) ??
+      new Stack(stage, edgeStackId, {
+        env: { region: "us-east-1", account: stack.account },
+        tags: stack.tags.tagValues(),
+      })
+    )
+  }
+
+  /**
+   * Copies the OpenNext assets to the bucket. Files in the versioned
+   * subdirectory (`_next` for hashed build output) never change, so they
+   * are cached forever; other cached files must be revalidated by
+   * browsers, while CloudFront may cache them until the next deploy.
+   */
+  private deployStaticAssets(s3Origin: OpenNextS3Origin) {
+    const overrides = this.props.assetCacheControl ?? {}
+    const unknownOverrides = Object.keys(overrides).filter(
+      (key) => !s3Origin.copy.some((copy) => copy.to === key)
+    )
+    if (unknownOverrides.length > 0) {
+      throw new Error(
+        `assetCacheControl contains unknown destinations: ${unknownOverrides.join(", ")}. ` +
+          `Known destinations: ${s3Origin.copy.map((copy) => copy.to).join(", ")}`
+      )
+    }
+
+    for (const copy of s3Origin.copy) {
+      const override = overrides[copy.to]
+      const sourcePath = path.join(this.openNextPath, "..", copy.from)
+      const versionedPath = copy.versionedSubDir
+        ? path.join(sourcePath, copy.versionedSubDir)
+        : undefined
+      const hasVersionedFiles = !!versionedPath && existsSync(versionedPath)
+      const unversionedCacheControl =
+        override?.unversioned ??
+        (copy.cached ? "public,max-age=0,s-maxage=31536000,must-revalidate" : undefined)
+
+      const deployment = new BucketDeployment(
+        this,
+        `OpenNextBucketDeployment${copy.from}`,
+        {
+          sources: [
+            Source.asset(sourcePath, {
+              exclude: hasVersionedFiles ? [`${copy.versionedSubDir}/**`] : undefined,
+            }),
+          ],
+          destinationBucket: this.bucket,
+          destinationKeyPrefix: copy.to,
+          prune: false,
+          cacheControl: unversionedCacheControl
+            ? [CacheControl.fromString(unversionedCacheControl)]
+            : undefined,
+        }
+      )
+      this.bucketDeployments.push(deployment)
+
+      if (hasVersionedFiles) {
+        const versionedCacheControl =
+          override?.versioned ??
+          (copy.cached ? "public,max-age=31536000,immutable" : undefined)
+        const versionedDeployment = new BucketDeployment(
+          this,
+          `OpenNextBucketDeployment${copy.from}Versioned`,
+          {
+            sources: [Source.asset(versionedPath!)],
+            destinationBucket: this.bucket,
+            destinationKeyPrefix: `${copy.to}/${copy.versionedSubDir}`,
+            prune: false,
+            cacheControl: versionedCacheControl
+              ? [CacheControl.fromString(versionedCacheControl)]
+              : undefined,
+          }
+        )
+        this.bucketDeployments.push(versionedDeployment)
+      }
+    }
+  }
+
+  private deployMaintenancePage(s3Origin: OpenNextS3Origin, props: MaintenanceProps) {
+    if (props.page !== undefined && !existsSync(props.page)) {
+      throw new Error(`Maintenance page '${props.page}' does not exist.`)
+    }
+    const page =
+      props.page !== undefined
+        ? readFileSync(props.page, "utf-8")
+        : DEFAULT_MAINTENANCE_PAGE
+    this.bucketDeployments.push(
+      new BucketDeployment(this, "MaintenancePageDeployment", {
+        sources: [Source.data("index.html", page)],
+        destinationBucket: this.bucket,
+        destinationKeyPrefix: path.posix
+          .join(s3Origin.originPath, "_maintenance")
+          .replace(/^\//, ""),
+        prune: false,
+        cacheControl: [CacheControl.noCache()],
+        metadata: { maintenance: "true" },
+      })
+    )
+  }
+
   private createRevalidationQueue() {
     const revalidationFn = this.openNextOutput.additionalProps?.revalidationFunction
     if (!revalidationFn) {
@@ -556,9 +2363,21 @@ export class NextjsSite extends Construct {
       )
     }
 
+    // Only with monitoring, so failed revalidations can be alarmed on
+    if (this.props.monitoring) {
+      this.revalidationDeadLetterQueue = new Queue(this, "RevalidationDeadLetterQueue", {
+        fifo: true,
+        retentionPeriod: Duration.days(14),
+        removalPolicy: this.getRemovalPolicy("queue"),
+      })
+    }
     const queue = new Queue(this, "RevalidationQueue", {
       fifo: true,
       receiveMessageWaitTime: Duration.seconds(20),
+      removalPolicy: this.getRemovalPolicy("queue"),
+      deadLetterQueue: this.revalidationDeadLetterQueue
+        ? { queue: this.revalidationDeadLetterQueue, maxReceiveCount: 3 }
+        : undefined,
     })
     const consumer = new CdkFunction(this, "RevalidationFunction", {
       description: "Next.js revalidator",
@@ -569,17 +2388,31 @@ export class NextjsSite extends Construct {
       timeout: Duration.seconds(30),
       loggingFormat: LoggingFormat.JSON,
       logGroup: this.props.logGroup,
+      ...this.getVpcProps(VpcFunction.REVALIDATION),
     })
     consumer.addEventSource(new SqsEventSource(queue, { batchSize: 5 }))
     return queue
   }
 
   private createWarmer() {
+    // Provisioned concurrency keeps instances initialized without pings
+    if (this.usesProvisionedConcurrency()) return
+
     // Default: warm: 1, users can disable with warm: false
-    const warmConcurrency = this.props.warm === false ? undefined : (this.props.warm ?? 1)
+    const warm = this.props.warm ?? 1
+    if (warm === false) return
+    const warmConcurrency = this.getWarmConcurrency(warm)
+    const windows = this.props.warmingWindows ?? []
 
     // Skip if warming is disabled or invalid
-    if (!warmConcurrency || warmConcurrency <= 0) return
+    if (
+      Object.keys(warmConcurrency).length === 0 &&
+      windows.every(
+        (window) => Object.keys(this.getWarmConcurrency(window.concurrency)).length === 0
+      )
+    ) {
+      return
+    }
 
     // Get warmer bundle from OpenNext
     const warmer = this.openNextOutput.additionalProps?.warmer
@@ -591,47 +2424,47 @@ export class NextjsSite extends Construct {
       return
     }
 
-    const warmerBundle = path.join(this.openNextPath, "..", warmer.bundle)
-    const warmerHandler = warmer.handler
-
-    // Configure WARM_PARAMS
-    const warmParams = [
-      {
-        concurrency: warmConcurrency,
-        function: this._defaultServerFunction.functionName,
-      },
-    ]
-
-    // Create warmer Lambda
-    this.warmerFunction = new CdkFunction(this, "WarmerFunction", {
-      description: "Next.js warmer",
-      handler: warmerHandler,
-      code: Code.fromAsset(warmerBundle),
-      runtime: Runtime.NODEJS_24_X,
-      architecture: Architecture.ARM_64,
-      timeout: Duration.minutes(1),
-      memorySize: 128,
-      loggingFormat: LoggingFormat.JSON,
-      logGroup: this.props.warmerLogGroup,
-      environment: {
-        WARM_PARAMS: JSON.stringify(warmParams),
-      },
-    })
-
-    // Grant invoke permissions
-    this._defaultServerFunction.grantInvoke(this.warmerFunction)
-    this._defaultServerFunction.addEnvironment("WARMER_ENABLED", "true")
-
-    // Create EventBridge rule
+    // With warming windows, the main warmer is only used to pre-warm on
+    // deploy, so it is skipped when that is disabled
     const interval = this.props.warmerInterval ?? Duration.minutes(5)
-    new Rule(this, "WarmerRule", {
-      description: `Invoke warmer every ${interval.toMinutes()} minutes`,
-      schedule: Schedule.rate(interval),
-      targets: [new LambdaFunction(this.warmerFunction, { retryAttempts: 0 })],
+    if (
+      Object.keys(warmConcurrency).length > 0 &&
+      (windows.length === 0 || this.props.prewarmOnDeploy !== false)
+    ) {
+      this.warmerFunction = this.createWarmerFunction(
+        "WarmerFunction",
+        warmer,
+        warmConcurrency
+      )
+      if (windows.length === 0) {
+        // Create EventBridge rule
+        new Rule(this, "WarmerRule", {
+          description: `Invoke warmer every ${interval.toMinutes()} minutes`,
+          schedule: Schedule.rate(interval),
+          targets: [new LambdaFunction(this.warmerFunction, { retryAttempts: 0 })],
+        })
+      }
+    }
+
+    // OpenNext's warmer reads its targets from WARM_PARAMS only, so every
+    // window needs its own warmer function
+    windows.forEach((window, index) => {
+      const windowConcurrency = this.getWarmConcurrency(window.concurrency)
+      if (Object.keys(windowConcurrency).length === 0) return
+      const windowFunction = this.createWarmerFunction(
+        `WarmerFunction${index}`,
+        warmer,
+        windowConcurrency
+      )
+      new SchedulerSchedule(this, `WarmerSchedule${index}`, {
+        description: `Invoke warmer for warming window ${index}`,
+        schedule: window.schedule,
+        target: new LambdaInvoke(windowFunction, { retryAttempts: 0 }),
+      })
     })
 
     // Create pre-warmer if enabled (default: true)
-    if (this.props.prewarmOnDeploy !== false) {
+    if (this.warmerFunction && this.props.prewarmOnDeploy !== false) {
       const prewarmerFn = new CdkFunction(this, "PrewarmerFunction", {
         description: "Next.js pre-warmer",
         handler: "index.handler",
@@ -664,6 +2497,7 @@ export class NextjsSite extends Construct {
         memorySize: 128,
         loggingFormat: LoggingFormat.JSON,
         logGroup: this.props.warmerLogGroup,
+        ...this.getVpcProps(VpcFunction.WARMER),
       })
 
       this.warmerFunction.grantInvoke(prewarmerFn)
@@ -686,14 +2520,487 @@ export class NextjsSite extends Construct {
         .digest("hex")
         .substring(0, 16) // Truncate for readability
 
-      new CustomResource(this, "PrewarmerResource", {
-        serviceToken: provider.serviceToken,
-        properties: {
-          FunctionName: this.warmerFunction.functionName,
-          Version: configHash,
+      new CustomResource(this, "PrewarmerResource", {
+        serviceToken: provider.serviceToken,
+        properties: {
+          FunctionName: this.warmerFunction.functionName,
+          Version: configHash,
+        },
+      })
+    }
+  }
+
+  /**
+   * Resolves a `warm` value to the concurrency per origin, dropping
+   * origins that are not warmed.
+   */
+  private getWarmConcurrency(warm: number | Record<string, number>) {
+    const concurrency = typeof warm === "number" ? { default: warm } : warm
+    return Object.fromEntries(
+      Object.entries(concurrency).filter(([, instances]) => instances > 0)
+    )
+  }
+
+  private createWarmerFunction(
+    id: string,
+    warmer: BaseFunction,
+    warmConcurrency: Record<string, number>
+  ) {
+    // Warm the aliases when traffic is shifted with CodeDeploy, so the
+    // instances that serve requests are the warm ones
+    const warmTargets = Object.keys(warmConcurrency).map((key) => {
+      const fn =
+        key === "imageOptimizer" ? this.imageOptimizerFunction : this.serverFunctions[key]
+      const target: IFunction = this.serverFunctionAliases[key] ?? fn
+      return { key, fn, target }
+    })
+
+    // Configure WARM_PARAMS
+    const warmParams = warmTargets.map(({ key, target }) => ({
+      concurrency: warmConcurrency[key],
+      function: target.functionName,
+    }))
+
+    // Create warmer Lambda
+    const warmerFunction = new CdkFunction(this, id, {
+      description: "Next.js warmer",
+      handler: warmer.handler,
+      code: Code.fromAsset(path.join(this.openNextPath, "..", warmer.bundle)),
+      runtime: Runtime.NODEJS_24_X,
+      architecture: Architecture.ARM_64,
+      timeout: Duration.minutes(1),
+      memorySize: 128,
+      loggingFormat: LoggingFormat.JSON,
+      logGroup: this.props.warmerLogGroup,
+      ...this.getVpcProps(VpcFunction.WARMER),
+      environment: {
+        WARM_PARAMS: JSON.stringify(warmParams),
+      },
+    })
+
+    // Grant invoke permissions
+    for (const { fn, target } of warmTargets) {
+      target.grantInvoke(warmerFunction)
+      fn.addEnvironment("WARMER_ENABLED", "true")
+    }
+    return warmerFunction
+  }
+
+  private getVpcProps(fn: VpcFunction) {
+    const vpcFunctions = this.props.vpcFunctions ?? [VpcFunction.SERVER]
+    if (!this.props.vpc || !vpcFunctions.includes(fn)) {
+      return {}
+    }
+    return {
+      vpc: this.props.vpc,
+      vpcSubnets: this.props.vpcSubnets,
+      securityGroups: this.props.securityGroups,
+    }
+  }
+
+  /**
+   * Creates the endpoints functions in private subnets without a NAT
+   * gateway need to reach the cache bucket, tag cache table, and
+   * revalidation queue.
+   */
+  private createVpcEndpoints(vpc: IVpc) {
+    const subnets = this.props.vpcSubnets ? [this.props.vpcSubnets] : undefined
+    new GatewayVpcEndpoint(this, "S3Endpoint", {
+      vpc,
+      service: GatewayVpcEndpointAwsService.S3,
+      subnets,
+    })
+    if (this.table) {
+      new GatewayVpcEndpoint(this, "DynamoDbEndpoint", {
+        vpc,
+        service: GatewayVpcEndpointAwsService.DYNAMODB,
+        subnets,
+      })
+    }
+    if (this.queue) {
+      new InterfaceVpcEndpoint(this, "SqsEndpoint", {
+        vpc,
+        service: InterfaceVpcEndpointAwsService.SQS,
+        subnets: this.props.vpcSubnets,
+      })
+    }
+  }
+
+  /**
+   * Creates a custom resource that invalidates the distribution once all
+   * bucket deployments and function updates are complete.
+   */
+  private createInvalidation(distribution: Distribution, props: InvalidationProps) {
+    const code = Code.fromInline(`
+      const {
+        CloudFrontClient,
+        CreateInvalidationCommand,
+        GetInvalidationCommand,
+      } = require("@aws-sdk/client-cloudfront")
+      const cloudfront = new CloudFrontClient({})
+
+      exports.onEvent = async (event) => {
+        if (event.RequestType === "Delete") {
+          return { PhysicalResourceId: event.PhysicalResourceId }
+        }
+
+        const { DistributionId, Paths } = event.ResourceProperties
+        const result = await cloudfront.send(
+          new CreateInvalidationCommand({
+            DistributionId,
+            InvalidationBatch: {
+              CallerReference: event.RequestId,
+              Paths: { Quantity: Paths.length, Items: Paths },
+            },
+          })
+        )
+
+        return {
+          PhysicalResourceId: "invalidation",
+          Data: { InvalidationId: result.Invalidation.Id },
+        }
+      }
+
+      exports.isComplete = async (event) => {
+        if (event.RequestType === "Delete") {
+          return { IsComplete: true }
+        }
+
+        const result = await cloudfront.send(
+          new GetInvalidationCommand({
+            DistributionId: event.ResourceProperties.DistributionId,
+            Id: event.Data.InvalidationId,
+          })
+        )
+        return { IsComplete: result.Invalidation.Status === "Completed" }
+      }
+    `)
+    const invalidationFunctionProps = {
+      code,
+      runtime: Runtime.NODEJS_24_X,
+      architecture: Architecture.ARM_64,
+      timeout: Duration.minutes(1),
+      memorySize: 128,
+      loggingFormat: LoggingFormat.JSON,
+      logGroup: this.props.logGroup,
+    }
+
+    const onEventFn = new CdkFunction(this, "InvalidationFunction", {
+      ...invalidationFunctionProps,
+      description: "Next.js CloudFront invalidation",
+      handler: "index.onEvent",
+    })
+    distribution.grantCreateInvalidation(onEventFn)
+
+    let isCompleteFn: CdkFunction | undefined
+    if (props.wait) {
+      isCompleteFn = new CdkFunction(this, "InvalidationCompleteFunction", {
+        ...invalidationFunctionProps,
+        description: "Next.js CloudFront invalidation status",
+        handler: "index.isComplete",
+      })
+      distribution.grant(isCompleteFn, "cloudfront:GetInvalidation")
+    }
+
+    const provider = new Provider(this, "InvalidationProvider", {
+      onEventHandler: onEventFn,
+      isCompleteHandler: isCompleteFn,
+      logGroup: this.props.logGroup,
+    })
+
+    const resource = new CustomResource(this, "InvalidationResource", {
+      serviceToken: provider.serviceToken,
+      properties: {
+        DistributionId: distribution.distributionId,
+        Paths: props.paths ?? ["/*"],
+        // A changed version is what triggers an update, and so an invalidation
+        Version: props.onlyWhenChanged ? this.getBundlesHash() : Date.now().toString(),
+      },
+    })
+    resource.node.addDependency(
+      ...this.bucketDeployments,
+      ...Object.values(this.serverFunctions),
+      ...Object.values(this.serverFunctionAliases),
+      this.imageOptimizerFunction,
+      ...Object.values(this.edgeFunctions)
+    )
+  }
+
+  /**
+   * Creates a custom resource that writes the redirects, the initial
+   * maintenance flag and the basic auth credentials to the key value
+   * store. Updating the keys in place keeps the store, and the keys
+   * operators set, across deployments.
+   */
+  private createKeyValueStoreSync(store: KeyValueStore, props: NextjsSiteProps) {
+    let redirects: Asset | undefined
+    if (props.redirects) {
+      const workdir = FileSystem.mkdtemp("key-value-store")
+      writeFileSync(
+        path.join(workdir, "data.json"),
+        toKeyValueStoreData(loadRedirects(props.redirects.file))
+      )
+      redirects = new Asset(this, "KeyValueStoreData", {
+        path: path.join(workdir, "data.json"),
+        deployTime: true,
+      })
+    }
+
+    const syncFn = new KeyValueStoreSyncFunction(this, "KeyValueStoreSyncFunction", {
+      description: "Next.js CloudFront key value store sync",
+      architecture: Architecture.ARM_64,
+      timeout: Duration.minutes(5),
+      memorySize: 256,
+      loggingFormat: LoggingFormat.JSON,
+      logGroup: this.props.logGroup,
+    })
+    Grant.addToPrincipal({
+      grantee: syncFn,
+      actions: [
+        "cloudfront-keyvaluestore:DescribeKeyValueStore",
+        "cloudfront-keyvaluestore:ListKeys",
+        "cloudfront-keyvaluestore:UpdateKeys",
+      ],
+      resourceArns: [store.keyValueStoreArn],
+    })
+    redirects?.grantRead(syncFn)
+    props.basicAuth?.secret?.grantRead(syncFn)
+
+    const provider = new Provider(this, "KeyValueStoreSyncProvider", {
+      onEventHandler: syncFn,
+      logGroup: this.props.logGroup,
+    })
+    return new CustomResource(this, "KeyValueStoreSync", {
+      serviceToken: provider.serviceToken,
+      properties: {
+        KeyValueStoreArn: store.keyValueStoreArn,
+        Redirects: redirects && {
+          Bucket: redirects.s3BucketName,
+          Key: redirects.s3ObjectKey,
+        },
+        Maintenance: props.maintenance && (props.maintenance.enabled ? "on" : "off"),
+        BasicAuth: props.basicAuth?.secret && {
+          SecretArn: props.basicAuth.secret.secretArn,
+          Key: props.basicAuth.keyValueStoreKey ?? "basic-auth",
+        },
+      },
+    })
+  }
+
+  /**
+   * Hash of every bundle and asset directory referenced by
+   * open-next.output.json, computed the same way CDK hashes assets.
+   */
+  private getBundlesHash() {
+    const { origins, edgeFunctions } = this.openNextOutput
+    const directories = [
+      ...Object.values(origins).flatMap((origin) =>
+        origin.type === "function"
+          ? [origin.bundle]
+          : origin.copy.map((copy) => copy.from)
+      ),
+      ...Object.values(edgeFunctions ?? {}).map((fn) => fn.bundle),
+    ]
+    const hash = createHash("sha256")
+    for (const directory of directories) {
+      hash.update(FileSystem.fingerprint(path.join(this.openNextPath, "..", directory)))
+    }
+    return hash.digest("hex").substring(0, 16)
+  }
+
+  /**
+   * Creates the monitoring dashboard and alarms. Widgets are laid out in
+   * rows: one per server function, then the image optimizer,
+   * revalidation, and the distribution.
+   */
+  private createMonitoring(monitoring: MonitoringProps): Dashboard {
+    const period = Duration.minutes(5)
+    const addAlarm = (
+      id: string,
+      alarmDescription: string,
+      metric: IMetric,
+      threshold: number,
+      comparisonOperator = ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD
+    ) => {
+      const alarm = new Alarm(this, `${id}Alarm`, {
+        alarmDescription,
+        metric,
+        threshold,
+        comparisonOperator,
+        evaluationPeriods: 1,
+        treatMissingData: TreatMissingData.NOT_BREACHING,
+      })
+      if (monitoring.alarmTopic) {
+        alarm.addAlarmAction(new SnsAction(monitoring.alarmTopic))
+        alarm.addOkAction(new SnsAction(monitoring.alarmTopic))
+      }
+      this.monitoringAlarms.push(alarm)
+    }
+
+    const dashboard = new Dashboard(this, "Dashboard", {
+      dashboardName: monitoring.dashboardName,
+    })
+
+    for (const [key, fn] of Object.entries(this.serverFunctions)) {
+      // The alias serves the traffic when there is one, and its metrics
+      // only cover the invocations through it
+      const target: IFunction = this.serverFunctionAliases[key] ?? fn
+      const url5xx = target.metric("Url5xxCount", { statistic: "Sum", period })
+      const throttles = target.metricThrottles({ period })
+      const duration = target.metricDuration({ statistic: "p99", period })
+      const timeout = this.getFunctionProps(key)?.timeout ?? DEFAULT_SERVER_TIMEOUT
+
+      addAlarm(
+        `${key}Server5xx`,
+        `5xx responses of the ${key} Next.js server function`,
+        url5xx,
+        monitoring.serverErrorsThreshold ?? 10
+      )
+      addAlarm(
+        `${key}ServerThrottles`,
+        `Throttles of the ${key} Next.js server function`,
+        throttles,
+        monitoring.serverThrottlesThreshold ?? 1
+      )
+      addAlarm(
+        `${key}ServerDuration`,
+        `p99 duration of the ${key} Next.js server function`,
+        duration,
+        (
+          monitoring.serverDurationThreshold ??
+          Duration.millis(timeout.toMilliseconds() * 0.8)
+        ).toMilliseconds()
+      )
+      dashboard.addWidgets(
+        new GraphWidget({
+          title: `Server ${key}: invocations`,
+          left: [target.metricInvocations({ period }), url5xx, throttles],
+        }),
+        new GraphWidget({ title: `Server ${key}: p99 duration`, left: [duration] })
+      )
+    }
+
+    const imageErrors = this.imageOptimizerFunction.metricErrors({ period })
+    addAlarm(
+      "ImageOptimizerErrors",
+      "Errors of the Next.js image optimizer function",
+      imageErrors,
+      monitoring.imageOptimizerErrorsThreshold ?? 10
+    )
+    dashboard.addWidgets(
+      new GraphWidget({
+        title: "Image optimizer",
+        left: [this.imageOptimizerFunction.metricInvocations({ period }), imageErrors],
+      })
+    )
+
+    const revalidationWidgets = []
+    if (this.queue) {
+      const queueAge = this.queue.metricApproximateAgeOfOldestMessage({ period })
+      addAlarm(
+        "RevalidationQueueAge",
+        "Age of the oldest Next.js revalidation message",
+        queueAge,
+        (monitoring.revalidationQueueAgeThreshold ?? Duration.minutes(5)).toSeconds()
+      )
+      revalidationWidgets.push(
+        new GraphWidget({ title: "Revalidation queue age", left: [queueAge] })
+      )
+    }
+    if (this.revalidationDeadLetterQueue) {
+      const deadLetters =
+        this.revalidationDeadLetterQueue.metricApproximateNumberOfMessagesVisible({
+          period,
+        })
+      addAlarm(
+        "RevalidationDeadLetters",
+        "Failed Next.js revalidations in the dead-letter queue",
+        deadLetters,
+        monitoring.revalidationDeadLetterThreshold ?? 1
+      )
+      revalidationWidgets.push(
+        new GraphWidget({ title: "Revalidation dead letters", left: [deadLetters] })
+      )
+    }
+    if (this.table) {
+      const tableThrottles = this.table.metricThrottledRequestsForOperations({
+        // The operations OpenNext's DynamoDB tag cache uses
+        operations: [
+          Operation.QUERY,
+          Operation.GET_ITEM,
+          Operation.PUT_ITEM,
+          Operation.BATCH_WRITE_ITEM,
+        ],
+        period,
+      })
+      addAlarm(
+        "RevalidationTableThrottles",
+        "Throttled requests to the Next.js revalidation table",
+        tableThrottles,
+        monitoring.tableThrottlesThreshold ?? 1
+      )
+      revalidationWidgets.push(
+        new GraphWidget({ title: "Revalidation table throttles", left: [tableThrottles] })
+      )
+    }
+    if (revalidationWidgets.length > 0) {
+      dashboard.addWidgets(...revalidationWidgets)
+    }
+
+    if (this.distribution) {
+      // CloudFront publishes its metrics to us-east-1 with a Global region
+      const cloudfrontMetricOptions = {
+        period,
+        region: "us-east-1",
+        dimensionsMap: {
+          DistributionId: this.distribution.distributionId,
+          Region: "Global",
         },
-      })
+      }
+      const errorRate = this.distribution.metric5xxErrorRate(cloudfrontMetricOptions)
+      const cacheHitRate = this.distribution.metricCacheHitRate(cloudfrontMetricOptions)
+      if (Stack.of(this).region === "us-east-1") {
+        addAlarm(
+          "Distribution5xxErrorRate",
+          "5xx error rate of the Next.js distribution",
+          errorRate,
+          monitoring.distribution5xxErrorRateThreshold ?? 5
+        )
+        if (monitoring.cacheHitRateThreshold !== undefined) {
+          addAlarm(
+            "DistributionCacheHitRate",
+            "Cache hit rate of the Next.js distribution",
+            cacheHitRate,
+            monitoring.cacheHitRateThreshold,
+            ComparisonOperator.LESS_THAN_THRESHOLD
+          )
+        }
+      } else {
+        Annotations.of(this).addWarning(
+          "CloudFront metrics only exist in us-east-1. Skipping the CloudFront alarms " +
+            "of the monitoring, the dashboard still shows the metrics."
+        )
+      }
+      dashboard.addWidgets(
+        new GraphWidget({
+          title: "CloudFront requests",
+          left: [this.distribution.metricRequests(cloudfrontMetricOptions)],
+        }),
+        new GraphWidget({ title: "CloudFront 5xx error rate", left: [errorRate] }),
+        new GraphWidget({ title: "CloudFront cache hit rate", left: [cacheHitRate] })
+      )
     }
+
+    return dashboard
+  }
+
+  private getRemovalPolicy(resource: keyof StatefulRemovalPolicies) {
+    const removalPolicy =
+      this.props.removalPolicies?.[resource] ??
+      this.props.removalPolicy ??
+      RemovalPolicy.DESTROY
+    // None of the stateful resources can be snapshotted, CDK throws for them
+    return removalPolicy === RemovalPolicy.SNAPSHOT ? RemovalPolicy.RETAIN : removalPolicy
   }
 
   private collectServerOrigins() {
@@ -767,9 +3074,37 @@ export class NextjsSite extends Construct {
       environment.CACHE_DYNAMO_TABLE = this.table.tableName
     }
 
+    if (this.props.secrets) {
+      environment.CDK_OPENNEXT_SECRETS = Stack.of(this).toJsonString(
+        Object.fromEntries(
+          Object.entries(this.props.secrets).map(([name, secret]) => [
+            name,
+            secret.secret
+              ? { secret: secret.secret.secretArn, jsonField: secret.jsonField }
+              : { parameter: secret.parameter!.parameterName },
+          ])
+        )
+      )
+    }
+
     return environment
   }
 
+  /**
+   * Returns the layer that resolves `secrets` at cold start. It is
+   * loaded with `NODE_OPTIONS=--import` before the server, and reads the
+   * values from the AWS Parameters and Secrets Lambda Extension.
+   */
+  private getSecretsLayer() {
+    if (!this.secretsLayer) {
+      this.secretsLayer = new LayerVersion(this, "SecretsLayer", {
+        description: "Resolves Next.js server secrets at cold start",
+        code: Code.fromAsset(path.join(__dirname, "..", "assets", "secrets-layer")),
+      })
+    }
+    return this.secretsLayer
+  }
+
   private getImageOptimizerEnvironment() {
     return {
       BUCKET_NAME: this.bucket.bucketName,
@@ -789,33 +3124,113 @@ export class NextjsSite extends Construct {
     }
   }
 
+  /**
+   * Grants reading `secrets`. Only regional server functions resolve
+   * them, so Lambda@Edge roles don't get these grants.
+   */
+  private grantSecrets(grantable: IGrantable) {
+    for (const secret of Object.values(this.props.secrets ?? {})) {
+      secret.secret?.grantRead(grantable)
+      secret.parameter?.grantRead(grantable)
+      secret.encryptionKey?.grantDecrypt(grantable)
+    }
+  }
+
+  /**
+   * Returns the props for a server function: `functionProps[key]`
+   * merged over `defaultFunctionProps`.
+   */
+  private getFunctionProps(key: string): DefaultFunctionProps | undefined {
+    const defaults = this.props.defaultFunctionProps
+    const overrides = this.props.functionProps?.[key]
+    if (!overrides) {
+      return defaults
+    }
+    return {
+      ...defaults,
+      ...overrides,
+      environment: {
+        ...defaults?.environment,
+        ...overrides.environment,
+      },
+    }
+  }
+
   private createFunctionOrigin(
     key: string,
     origin: OpenNextFunctionOrigin,
-    originId?: string,
-    fnProps?: DefaultFunctionProps
+    originId?: string
   ) {
+    const fnProps = this.getFunctionProps(key)
     const environment = this.getServerEnvironment(origin)
+    const bundlePath = path.join(this.openNextPath, "..", origin.bundle)
+    const sourcemaps = this.props.sourcemaps
+    if (sourcemaps?.uploadToBucket) {
+      new BucketDeployment(this, `${key}SourceMapDeployment`, {
+        // Git ignore rules also match the maps under dot directories like .next
+        sources: [
+          Source.asset(bundlePath, {
+            exclude: ["*", "!*/", "!*.map"],
+            ignoreMode: IgnoreMode.GIT,
+          }),
+        ],
+        destinationBucket: this.bucket,
+        destinationKeyPrefix: `_sourcemaps/${key}`,
+        // Keep the maps of earlier deployments for errors from older versions
+        prune: false,
+      })
+    }
+    const nodeOptions = [
+      sourcemaps && !sourcemaps.uploadToBucket ? "--enable-source-maps" : undefined,
+      this.props.secrets ? "--import=/opt/cdk-opennext/secrets.mjs" : undefined,
+    ].filter(Boolean)
+    if (nodeOptions.length > 0) {
+      environment.NODE_OPTIONS = [fnProps?.environment?.NODE_OPTIONS, ...nodeOptions]
+        .filter(Boolean)
+        .join(" ")
+    }
     const fn = new CdkFunction(this, `${key}Function`, {
+      ...this.getVpcProps(VpcFunction.SERVER),
       ...fnProps,
       runtime: fnProps?.runtime ?? Runtime.NODEJS_24_X,
       architecture: fnProps?.architecture ?? Architecture.ARM_64,
       memorySize: fnProps?.memorySize ?? 1024,
-      timeout: fnProps?.timeout ?? Duration.seconds(10),
+      timeout: fnProps?.timeout ?? DEFAULT_SERVER_TIMEOUT,
       loggingFormat: fnProps?.loggingFormat ?? LoggingFormat.JSON,
       logGroup: fnProps?.logGroup ?? this.props.logGroup,
       handler: origin.handler,
-      code: Code.fromAsset(path.join(this.openNextPath, "..", origin.bundle)),
+      code: Code.fromAsset(bundlePath, {
+        exclude: sourcemaps?.uploadToBucket ? ["*.map"] : undefined,
+        ignoreMode: sourcemaps?.uploadToBucket ? IgnoreMode.GIT : undefined,
+      }),
+      layers: this.props.secrets
+        ? [...(fnProps?.layers ?? []), this.getSecretsLayer()]
+        : fnProps?.layers,
+      paramsAndSecrets:
+        fnProps?.paramsAndSecrets ??
+        (this.props.secrets
+          ? ParamsAndSecretsLayerVersion.fromVersion(ParamsAndSecretsVersions.V1_0_103)
+          : undefined),
       environment: {
         ...fnProps?.environment,
         ...environment,
       },
     })
-    const fnUrl = fn.addFunctionUrl({
-      authType: FunctionUrlAuthType.NONE,
+    const target =
+      this.props.deployment || this.usesProvisionedConcurrency()
+        ? this.createServerAlias(key, fn)
+        : fn
+    const protection = this.props.protectServerFunctions ?? ServerFunctionProtection.NONE
+    const fnUrl = target.addFunctionUrl({
+      authType:
+        protection === ServerFunctionProtection.NONE
+          ? FunctionUrlAuthType.NONE
+          : FunctionUrlAuthType.AWS_IAM,
       invokeMode: origin.streaming ? InvokeMode.RESPONSE_STREAM : InvokeMode.BUFFERED,
     })
     this.grantServerPermissions(fn, origin)
+    this.grantSecrets(fn)
+    this.serverFunctions[key] = fn
 
     // Store reference to default server function
     if (key === "default") {
@@ -823,11 +3238,70 @@ export class NextjsSite extends Construct {
       this.defaultFunctionUrl = fnUrl
     }
 
+    if (protection !== ServerFunctionProtection.NONE) {
+      return FunctionUrlOrigin.withOriginAccessControl(fnUrl, {
+        ...(originId ? { originId } : {}),
+      })
+    }
     return new HttpOrigin(Fn.parseDomainName(fnUrl.url), {
       ...(originId ? { originId } : {}),
     })
   }
 
+  /**
+   * Publishes a version of a server function behind an alias. The alias
+   * carries the provisioned concurrency, and with `deployment` CodeDeploy
+   * shifts it to new versions.
+   */
+  private createServerAlias(key: string, fn: CdkFunction) {
+    const { deployment, coldStart } = this.props
+    const alias = new Alias(this, `${key}Alias`, {
+      aliasName: deployment?.aliasName ?? "live",
+      version: fn.currentVersion,
+      provisionedConcurrentExecutions: this.usesProvisionedConcurrency()
+        ? (coldStart?.provisionedConcurrency ?? 1)
+        : undefined,
+    })
+    this.serverFunctionAliases[key] = alias
+
+    if (this.usesProvisionedConcurrency() && coldStart?.maxProvisionedConcurrency) {
+      const scaling = alias.addAutoScaling({
+        minCapacity: coldStart.provisionedConcurrency ?? 1,
+        maxCapacity: coldStart.maxProvisionedConcurrency,
+      })
+      if (coldStart.utilizationTarget !== undefined) {
+        scaling.scaleOnUtilization({ utilizationTarget: coldStart.utilizationTarget })
+      }
+      for (const [id, action] of Object.entries(coldStart.scheduledScaling ?? {})) {
+        scaling.scaleOnSchedule(id, action)
+      }
+    }
+
+    if (!deployment) {
+      return alias
+    }
+    const alarms = deployment.alarms ?? [
+      new Alarm(this, `${key}ErrorsAlarm`, {
+        alarmDescription: `Errors of the ${key} Next.js server function during deployment`,
+        metric: alias.metricErrors({ period: Duration.minutes(1) }),
+        threshold: 1,
+        evaluationPeriods: 1,
+        treatMissingData: TreatMissingData.NOT_BREACHING,
+      }),
+    ]
+    new LambdaDeploymentGroup(this, `${key}DeploymentGroup`, {
+      alias,
+      deploymentConfig:
+        deployment.deploymentConfig ?? LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES,
+      alarms,
+    })
+    return alias
+  }
+
+  private usesProvisionedConcurrency() {
+    return this.props.coldStart?.strategy === ColdStartStrategy.PROVISIONED_CONCURRENCY
+  }
+
   /**
    * Creates the image optimizer Lambda function with Origin Access Control (OAC).
    * OAC ensures that the image optimizer can only be accessed through CloudFront,
@@ -835,17 +3309,26 @@ export class NextjsSite extends Construct {
    */
   private createImageOptimizerOrigin(origin: OpenNextFunctionOrigin) {
     const environment = this.getImageOptimizerEnvironment()
+    const { cachePolicy: _cachePolicy, ...fnProps } = this.props.imageOptimization ?? {}
     const fn = new CdkFunction(this, "imageOptimizerFunction", {
-      runtime: Runtime.NODEJS_24_X,
-      architecture: Architecture.ARM_64,
-      memorySize: 1024,
-      loggingFormat: LoggingFormat.JSON,
-      logGroup: this.props.logGroup,
+      ...this.getVpcProps(VpcFunction.IMAGE_OPTIMIZER),
+      ...fnProps,
+      runtime: fnProps.runtime ?? Runtime.NODEJS_24_X,
+      architecture: fnProps.architecture ?? Architecture.ARM_64,
+      memorySize: fnProps.memorySize ?? 1024,
+      timeout: fnProps.timeout ?? Duration.seconds(25),
+      loggingFormat: fnProps.loggingFormat ?? LoggingFormat.JSON,
+      logGroup: fnProps.logGroup ?? this.props.logGroup,
       handler: origin.handler,
       code: Code.fromAsset(path.join(this.openNextPath, "..", origin.bundle)),
-      environment,
+      environment: {
+        ...fnProps.environment,
+        ...environment,
+      },
     })
 
+    this.imageOptimizerFunction = fn
+
     // Create function URL with IAM auth - required for OAC
     const fnUrl = fn.addFunctionUrl({
       authType: FunctionUrlAuthType.AWS_IAM,
@@ -881,17 +3364,235 @@ if(request.headers["cloudfront-viewer-longitude"]) {
     `.trim()
   }
 
+  /**
+   * Returns a 301 to the primary domain for requests to the alternate
+   * names when `redirectAlternateNames` is set, keeping the path and
+   * query string.
+   */
+  private getRedirectInjection() {
+    const domain = this.props.customDomain
+    if (!domain?.redirectAlternateNames || !domain.alternateNames?.length) {
+      return ""
+    }
+    const redirectHosts = domain.alternateNames.map((name) => name.toLowerCase())
+    return `
+var host = request.headers.host ? request.headers.host.value.toLowerCase() : "";
+if (${JSON.stringify(redirectHosts)}.indexOf(host) !== -1) {
+  var query = queryString(request);
+  return {
+    statusCode: 301,
+    statusDescription: "Moved Permanently",
+    headers: {
+      location: {
+        value: "https://${domain.domainName}" + request.uri + (query ? "?" + query : ""),
+      },
+    },
+  };
+}
+    `.trim()
+  }
+
+  private getEdgeRedirectsInjection() {
+    if (!this.props.redirects) {
+      return ""
+    }
+    // Skip the lookup for Next.js internals and paths served by the bucket
+    // or the image optimizer, which are never redirected
+    const staticPatterns = this.openNextOutput.behaviors
+      .filter(
+        (b) => b.pattern !== "*" && (b.origin === "s3" || b.origin === "imageOptimizer")
+      )
+      .map((b) =>
+        b.pattern
+          .replace(/[.+^${}()|[\]\\/]/g, "\\$&")
+          .replace(/\*/g, ".*")
+          .replace(/\?/g, ".")
+      )
+    const staticPaths = new RegExp(
+      `^\\/(?:${["_next\\/.*", ...staticPatterns].join("|")})$`
+    )
+    return `
+var redirect;
+if (!${staticPaths}.test(request.uri)) {
+  try {
+    redirect = await cf.kvs(${JSON.stringify(this.keyValueStore!.keyValueStoreId)}).get(request.uri);
+  } catch (e) {}
+}
+if (redirect) {
+  var status = redirect.slice(0, redirect.indexOf(" "));
+  var destination = redirect.slice(redirect.indexOf(" ") + 1);
+  if (status === "rewrite") {
+    request.uri = destination;
+  } else {
+    var redirectQuery = queryString(request);
+    return {
+      statusCode: Number(status),
+      headers: {
+        location: {
+          value: destination + (redirectQuery && destination.indexOf("?") === -1 ? "?" + redirectQuery : ""),
+        },
+      },
+    };
+  }
+}
+    `.trim()
+  }
+
+  private getMaintenanceInjection() {
+    const maintenance = this.props.maintenance
+    if (!maintenance) {
+      return ""
+    }
+    const store = JSON.stringify(this.keyValueStore!.keyValueStoreId)
+    const bypassCookie = JSON.stringify(maintenance.bypassCookieName ?? "")
+    return `
+var maintenance = "off";
+try {
+  maintenance = await cf.kvs(${store}).get("maintenance");
+} catch (e) {}
+if (maintenance === "on" && ${JSON.stringify(maintenance.allowedIps ?? [])}.indexOf(event.viewer.ip) === -1) {
+  var bypass = request.cookies && request.cookies[${bypassCookie}];
+  var bypassed = false;
+  if (bypass) {
+    try {
+      bypassed = bypass.value === (await cf.kvs(${store}).get("maintenance-bypass"));
+    } catch (e) {}
+  }
+  if (!bypassed) {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return { statusCode: 503, statusDescription: "Service Unavailable" };
+    }
+    request.uri = "/_maintenance/index.html";
+    request.querystring = {};
+    cf.selectRequestOriginById("S3Bucket");
+    return request;
+  }
+}
+    `.trim()
+  }
+
+  private getQueryStringFunction() {
+    if (!this.props.redirects && !this.props.customDomain?.redirectAlternateNames) {
+      return ""
+    }
+    return `
+function queryString(request) {
+  var query = [];
+  for (var key in request.querystring) {
+    var param = request.querystring[key];
+    var values = param.multiValue ? param.multiValue : [param];
+    for (var i = 0; i < values.length; i++) {
+      query.push(values[i].value === "" ? key : key + "=" + values[i].value);
+    }
+  }
+  return query.join("&");
+}
+    `.trim()
+  }
+
+  private getBasicAuthInjection() {
+    const auth = this.props.basicAuth
+    if (!auth) {
+      return ""
+    }
+    const store = JSON.stringify(
+      this.getCloudfrontFunctionKeyValueStore()!.keyValueStoreId
+    )
+    return `
+var excluded = false;
+var excludePaths = ${JSON.stringify(auth.excludePaths ?? [])};
+for (var i = 0; i < excludePaths.length; i++) {
+  var excludePath = excludePaths[i];
+  if (excludePath.slice(-1) === "*" ? request.uri.indexOf(excludePath.slice(0, -1)) === 0 : request.uri === excludePath) {
+    excluded = true;
+  }
+}
+if (!excluded) {
+  var authorization = request.headers.authorization ? request.headers.authorization.value : "";
+  var credentials;
+  try {
+    credentials = await cf.kvs(${store}).get(${JSON.stringify(auth.keyValueStoreKey ?? "basic-auth")});
+  } catch (e) {}
+  if (!credentials || authorization !== "Basic " + credentials) {
+    return {
+      statusCode: 401,
+      statusDescription: "Unauthorized",
+      headers: {
+        "www-authenticate": { value: ${JSON.stringify(`Basic realm="${auth.realm ?? "Restricted"}"`)} },
+      },
+    };
+  }
+  delete request.headers.authorization;
+}
+    `.trim()
+  }
+
   private buildCloudfrontFunctionCode(): string {
+    const usesKeyValueStore = this.getCloudfrontFunctionKeyValueStore() !== undefined
     return `
-      function handler(event) {
+      ${usesKeyValueStore ? 'import cf from "cloudfront";' : ""}
+      ${this.getQueryStringFunction()}
+      ${usesKeyValueStore ? "async " : ""}function handler(event) {
         var request = event.request;
+        ${this.getRedirectInjection()}
+        ${this.getBasicAuthInjection()}
+        ${this.props.cloudfrontFunctionHooks?.viewerRequestBefore ?? ""}
+        ${this.getMaintenanceInjection()}
+        ${this.getEdgeRedirectsInjection()}
         request.headers["x-forwarded-host"] = request.headers.host;
         ${this.getGeoHeadersInjection()}
+        ${this.props.cloudfrontFunctionHooks?.viewerRequestAfter ?? ""}
         return request;
       }
     `
   }
 
+  private getCloudfrontFunctionKeyValueStore(): IKeyValueStore | undefined {
+    return this.props.basicAuth?.keyValueStore ?? this.keyValueStore
+  }
+
+  private buildCloudfrontResponseFunctionCode(): string | undefined {
+    const viewerResponse = this.props.cloudfrontFunctionHooks?.viewerResponse
+    if (viewerResponse === undefined && !this.props.maintenance) {
+      return undefined
+    }
+    // The maintenance page is the only object deployed with this metadata
+    const maintenanceInjection = this.props.maintenance
+      ? `
+if (response.headers["x-amz-meta-maintenance"]) {
+  delete response.headers["x-amz-meta-maintenance"];
+  response.statusCode = 503;
+  response.statusDescription = "Service Unavailable";
+}
+        `.trim()
+      : ""
+    return `
+      function handler(event) {
+        var request = event.request;
+        var response = event.response;
+        ${maintenanceInjection}
+        ${viewerResponse ?? ""}
+        return response;
+      }
+    `
+  }
+
+  private validateCloudfrontFunctionSize(name: string, code: string | undefined) {
+    // Count tokens at a worst-case resolved length rather than the length
+    // of their placeholders. Key value store IDs are 36 characters.
+    const worstCase: string =
+      Tokenization.reverseString(code ?? "")
+        .mapTokens({ mapToken: () => "x".repeat(64) })
+        .join({ join: (left, right) => `${left}${right}` }) ?? ""
+    const size = Buffer.byteLength(worstCase)
+    if (size > 10 * 1024) {
+      throw new Error(
+        `The ${name} CloudFront function is ${size} bytes, which exceeds the ` +
+          "10 KB CloudFront Functions limit. Reduce cloudfrontFunctionHooks."
+      )
+    }
+  }
+
   private createDistribution(
     origins: Record<string, IOrigin>,
     props: NextjsSiteProps,
@@ -899,28 +3600,76 @@ if(request.headers["cloudfront-viewer-longitude"]) {
   ) {
     const cloudfrontFunction = new CloudfrontFunction(this, "CloudFrontFunction", {
       code: FunctionCode.fromInline(this.buildCloudfrontFunctionCode()),
+      keyValueStore: this.getCloudfrontFunctionKeyValueStore(),
     })
+    if (this.keyValueStoreSync) {
+      cloudfrontFunction.node.addDependency(this.keyValueStoreSync)
+    }
     const fnAssociations = [
       {
         function: cloudfrontFunction,
         eventType: FunctionEventType.VIEWER_REQUEST,
       },
     ]
+    const responseFunctionCode = this.buildCloudfrontResponseFunctionCode()
+    if (responseFunctionCode !== undefined) {
+      fnAssociations.push({
+        function: new CloudfrontFunction(this, "CloudFrontResponseFunction", {
+          code: FunctionCode.fromInline(responseFunctionCode),
+        }),
+        eventType: FunctionEventType.VIEWER_RESPONSE,
+      })
+    }
 
     if (!origins.default) {
       throw new Error("Default origin must be defined")
     }
+    const defaultBehavior = this.openNextOutput.behaviors.find((b) => b.pattern === "*")
+    const signingFunction =
+      props.protectServerFunctions === ServerFunctionProtection.OAC_WITH_EDGE_SIGNING
+        ? this.createSigningEdgeFunction()
+        : undefined
+    const overrides = props.behaviorOverrides ?? {}
+    for (const pattern of Object.keys(overrides)) {
+      if (!this.openNextOutput.behaviors.some((b) => b.pattern === pattern)) {
+        throw new Error(
+          `behaviorOverrides pattern '${pattern}' does not match any behavior in ` +
+            "open-next.output.json"
+        )
+      }
+    }
+    const realtimeLogConfig = props.accessLogs?.realtime
+      ? this.createRealtimeLogConfig(props.accessLogs.realtime, this.realtimeLogStream!)
+      : undefined
     const distribution = new Distribution(this, "Distribution", {
-      domainNames: props.customDomain ? [props.customDomain.domainName] : undefined,
+      enableLogging: props.accessLogs ? true : undefined,
+      logBucket: this.accessLogBucket,
+      logFilePrefix: props.accessLogs?.prefix,
+      logIncludesCookies: props.accessLogs?.includeCookies,
+      domainNames: props.customDomain
+        ? [props.customDomain.domainName, ...(props.customDomain.alternateNames ?? [])]
+        : undefined,
       certificate,
+      publishAdditionalMetrics: props.monitoring ? true : undefined,
+      webAclId: props.waf
+        ? (props.waf.webAclArn ?? this.getWebAclArn(this.webAcl!))
+        : undefined,
       defaultBehavior: {
         origin: origins.default,
         viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
         allowedMethods: AllowedMethods.ALLOW_ALL,
         cachedMethods: CachedMethods.CACHE_GET_HEAD_OPTIONS,
-        cachePolicy: this.serverCachePolicy,
-        originRequestPolicy: OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
+        cachePolicy: overrides["*"]?.cachePolicy ?? this.serverBehaviorCachePolicy,
+        originRequestPolicy:
+          overrides["*"]?.originRequestPolicy ??
+          OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
         functionAssociations: fnAssociations,
+        responseHeadersPolicy: this.responseHeadersPolicy,
+        realtimeLogConfig,
+        edgeLambdas: this.getEdgeLambdas(
+          defaultBehavior ?? { pattern: "*" },
+          signingFunction
+        ),
       },
       additionalBehaviors: this.openNextOutput.behaviors
         .filter((b) => b.pattern !== "*")
@@ -932,22 +3681,25 @@ if(request.headers["cloudfront-viewer-longitude"]) {
                 `Origin '${behavior.origin || "default"}' not found in origins map`
               )
             }
+            const override = overrides[behavior.pattern]
             const behaviorOptions: BehaviorOptions = {
               origin,
               viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
               allowedMethods: AllowedMethods.ALLOW_GET_HEAD_OPTIONS,
               cachedMethods: CachedMethods.CACHE_GET_HEAD_OPTIONS,
-              cachePolicy:
-                behavior.origin === "s3"
-                  ? this.staticCachePolicy
-                  : this.serverCachePolicy,
-              ...(behavior.origin === "s3"
-                ? {}
-                : {
-                    originRequestPolicy:
-                      OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
-                  }),
+              cachePolicy: override?.cachePolicy ?? this.getCachePolicy(behavior.origin),
+              originRequestPolicy:
+                override?.originRequestPolicy ??
+                (behavior.origin === "s3"
+                  ? undefined
+                  : OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER),
               functionAssociations: fnAssociations,
+              responseHeadersPolicy:
+                behavior.origin === "s3" && behavior.pattern.startsWith("_next/")
+                  ? this.staticResponseHeadersPolicy
+                  : this.responseHeadersPolicy,
+              realtimeLogConfig,
+              edgeLambdas: this.getEdgeLambdas(behavior, signingFunction),
             }
             acc[behavior.pattern] = behaviorOptions
             return acc
@@ -958,25 +3710,422 @@ if(request.headers["cloudfront-viewer-longitude"]) {
     return distribution
   }
 
+  private createAccessLogBucket(props: AccessLogsProps) {
+    const removalPolicy = this.getRemovalPolicy("logs")
+    return new Bucket(this, "AccessLogBucket", {
+      blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+      // CloudFront standard logs are delivered with ACLs
+      objectOwnership: ObjectOwnership.OBJECT_WRITER,
+      lifecycleRules: props.expiration ? [{ expiration: props.expiration }] : undefined,
+      autoDeleteObjects: removalPolicy === RemovalPolicy.DESTROY,
+      removalPolicy,
+      enforceSSL: true,
+    })
+  }
+
+  private createRealtimeLogStream() {
+    return new Stream(this, "RealtimeLogStream", {
+      streamMode: StreamMode.ON_DEMAND,
+      encryption: StreamEncryption.MANAGED,
+      removalPolicy: this.getRemovalPolicy("logs"),
+    })
+  }
+
+  private createRealtimeLogConfig(props: RealtimeLogsProps, stream: IStream) {
+    return new RealtimeLogConfig(this, "RealtimeLogConfig", {
+      endPoints: [Endpoint.fromKinesisStream(stream)],
+      fields: props.fields ?? [
+        "timestamp",
+        "c-ip",
+        "cs-method",
+        "cs-uri-stem",
+        "sc-status",
+        "time-taken",
+        "x-edge-result-type",
+        "x-edge-request-id",
+        "cs-user-agent",
+      ],
+      samplingRate: props.samplingRate ?? 100,
+    })
+  }
+
+  /**
+   * Creates a CLOUDFRONT-scope web ACL in us-east-1.
+   */
+  private createWebAcl(waf: WafProps) {
+    const stack = Stack.of(this)
+    const wafStack = this.getUsEast1Stack("WAF web ACLs for CloudFront")
+    const scope =
+      wafStack === stack ? this : new Construct(wafStack, Names.uniqueId(this))
+
+    const rules: CfnWebACL.RuleProperty[] = []
+    const addRule = (
+      name: string,
+      statement: CfnWebACL.StatementProperty,
+      action?: CfnWebACL.RuleActionProperty
+    ) => {
+      rules.push({
+        name,
+        priority: rules.length,
+        statement,
+        ...(action
+          ? { action }
+          : // Managed rule groups bring their own actions
+            { overrideAction: { none: {} } }),
+        visibilityConfig: {
+          cloudWatchMetricsEnabled: true,
+          metricName: name,
+          sampledRequestsEnabled: true,
+        },
+      })
+    }
+    const addIpSetRules = (
+      name: string,
+      cidrs: string[],
+      action: CfnWebACL.RuleActionProperty
+    ) => {
+      const versions = [
+        { version: "IPV4", cidrs: cidrs.filter((cidr) => !cidr.includes(":")) },
+        { version: "IPV6", cidrs: cidrs.filter((cidr) => cidr.includes(":")) },
+      ]
+      for (const { version, cidrs: addresses } of versions) {
+        if (addresses.length === 0) continue
+        const ipSet = new CfnIPSet(scope, `${name}${version}Set`, {
+          scope: "CLOUDFRONT",
+          ipAddressVersion: version,
+          addresses,
+        })
+        addRule(
+          `${name}${version}`,
+          { ipSetReferenceStatement: { arn: ipSet.attrArn } },
+          action
+        )
+      }
+    }
+
+    addIpSetRules("AllowedIps", waf.allowedIps ?? [], { allow: {} })
+    addIpSetRules("BlockedIps", waf.blockedIps ?? [], { block: {} })
+    if (waf.rateLimit !== undefined) {
+      addRule(
+        "RateLimit",
+        { rateBasedStatement: { limit: waf.rateLimit, aggregateKeyType: "IP" } },
+        { block: {} }
+      )
+    }
+    if (waf.serverActionRateLimit !== undefined) {
+      addRule(
+        "ServerActionRateLimit",
+        {
+          rateBasedStatement: {
+            limit: waf.serverActionRateLimit,
+            aggregateKeyType: "IP",
+            scopeDownStatement: {
+              andStatement: {
+                statements: [
+                  {
+                    byteMatchStatement: {
+                      fieldToMatch: { method: {} },
+                      positionalConstraint: "EXACTLY",
+                      searchString: "POST",
+                      textTransformations: [{ priority: 0, type: "NONE" }],
+                    },
+                  },
+                  {
+                    sizeConstraintStatement: {
+                      fieldToMatch: { singleHeader: { Name: "next-action" } },
+                      comparisonOperator: "GT",
+                      size: 0,
+                      textTransformations: [{ priority: 0, type: "NONE" }],
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        { block: {} }
+      )
+    }
+    if (waf.commonRuleSet !== false) {
+      addRule("AWSManagedRulesCommonRuleSet", {
+        managedRuleGroupStatement: {
+          vendorName: "AWS",
+          name: "AWSManagedRulesCommonRuleSet",
+          // Blocks bodies over 8 KB, which breaks Server Actions and uploads
+          ruleActionOverrides: [
+            { name: "SizeRestrictions_BODY", actionToUse: { count: {} } },
+          ],
+        },
+      })
+    }
+    if (waf.knownBadInputsRuleSet !== false) {
+      addRule("AWSManagedRulesKnownBadInputsRuleSet", {
+        managedRuleGroupStatement: {
+          vendorName: "AWS",
+          name: "AWSManagedRulesKnownBadInputsRuleSet",
+        },
+      })
+    }
+
+    return new CfnWebACL(scope, "WebAcl", {
+      scope: "CLOUDFRONT",
+      defaultAction: { allow: {} },
+      rules,
+      visibilityConfig: {
+        cloudWatchMetricsEnabled: true,
+        metricName: Names.uniqueResourceName(this, { maxLength: 128 }),
+        sampledRequestsEnabled: true,
+      },
+    })
+  }
+
+  /**
+   * Returns the ARN of the web ACL. From other regions the ARN is passed
+   * through an SSM parameter, the same way `EdgeFunction` passes
+   * function ARNs.
+   */
+  private getWebAclArn(webAcl: CfnWebACL) {
+    const stack = Stack.of(this)
+    const wafStack = Stack.of(webAcl)
+    if (wafStack === stack) {
+      return webAcl.attrArn
+    }
+    // Keep the parameter next to the web ACL in the us-east-1 stack
+    const scope = webAcl.node.scope as Construct
+
+    const parameterName = `/cdk-opennext/WebAclArn/${stack.region}/${this.node.path}`
+    new StringParameter(scope, "WebAclArnParameter", {
+      parameterName,
+      stringValue: webAcl.attrArn,
+    })
+    stack.addDependency(wafStack)
+    const reader = new AwsCustomResource(this, "WebAclArnReader", {
+      onUpdate: {
+        service: "SSM",
+        action: "getParameter",
+        parameters: { Name: parameterName },
+        region: "us-east-1",
+        // Read the parameter on every deployment, in case the ACL was replaced
+        physicalResourceId: PhysicalResourceId.of(Date.now().toString()),
+      },
+      policy: AwsCustomResourcePolicy.fromSdkCalls({
+        resources: [
+          stack.formatArn({
+            service: "ssm",
+            region: "us-east-1",
+            resource: "parameter",
+            resourceName: parameterName.slice(1),
+          }),
+        ],
+      }),
+      installLatestAwsSdk: false,
+    })
+    return reader.getResponseField("Parameter.Value")
+  }
+
+  /**
+   * Creates the Lambda@Edge function that adds the `x-amz-content-sha256`
+   * header Origin Access Control requires for requests with a body to
+   * Lambda function URLs. CloudFront Functions cannot read the request
+   * body, so this has to be an origin request Lambda@Edge function.
+   * Bodies over 1 MB are truncated by CloudFront and cannot be hashed,
+   * so those requests get a 413 instead of a signature error.
+   */
+  private createSigningEdgeFunction() {
+    const stack = Stack.of(this)
+    const edgeStack = this.getUsEast1Stack("Edge signing functions")
+    const signingProps = this.props.signingFunctionProps
+    return new experimental.EdgeFunction(this, "ServerSigningEdgeFunction", {
+      description: "Next.js server function request signing",
+      handler: "index.handler",
+      code: Code.fromInline(`
+        const { createHash } = require("crypto")
+
+        exports.handler = async (event) => {
+          const request = event.Records[0].cf.request
+          if (request.body && request.body.inputTruncated) {
+            return {
+              status: "413",
+              statusDescription: "Payload Too Large",
+              headers: {
+                "content-type": [{ key: "Content-Type", value: "text/plain" }],
+              },
+              body: "Request body too large",
+            }
+          }
+          if (!["GET", "HEAD", "OPTIONS"].includes(request.method)) {
+            const body = request.body && request.body.data
+              ? Buffer.from(request.body.data, request.body.encoding === "base64" ? "base64" : "utf8")
+              : Buffer.alloc(0)
+            request.headers["x-amz-content-sha256"] = [
+              {
+                key: "x-amz-content-sha256",
+                value: createHash("sha256").update(body).digest("hex"),
+              },
+            ]
+          }
+          return request
+        }
+      `),
+      runtime: signingProps?.runtime ?? Runtime.NODEJS_22_X,
+      architecture: Architecture.X86_64,
+      memorySize: signingProps?.memorySize ?? 128,
+      timeout: signingProps?.timeout ?? Duration.seconds(5),
+      stackId: edgeStack !== stack ? edgeStack.node.id : undefined,
+    })
+  }
+
+  private isServerOrigin(name: string) {
+    const origin = this.openNextOutput.origins[name]
+    return name !== "imageOptimizer" && origin?.type === "function"
+  }
+
+  private getEdgeLambdas(
+    behavior: OpenNextBehavior,
+    signingFunction?: experimental.EdgeFunction
+  ): EdgeLambda[] | undefined {
+    const signs = !!signingFunction && this.isServerOrigin(behavior.origin ?? "default")
+    if (behavior.edgeFunction && signs) {
+      throw new Error(
+        `Behavior '${behavior.pattern}' uses edge function '${behavior.edgeFunction}', ` +
+          "which cannot be combined with ServerFunctionProtection.OAC_WITH_EDGE_SIGNING."
+      )
+    }
+    if (signs) {
+      return [
+        {
+          functionVersion: signingFunction.currentVersion,
+          eventType: LambdaEdgeEventType.ORIGIN_REQUEST,
+          includeBody: true,
+        },
+      ]
+    }
+    if (!behavior.edgeFunction) {
+      return undefined
+    }
+    const edgeFunction = this.edgeFunctions[behavior.edgeFunction]
+    if (!edgeFunction) {
+      throw new Error(
+        `Edge function '${behavior.edgeFunction}' not found in edgeFunctions map`
+      )
+    }
+    return [
+      {
+        functionVersion: edgeFunction.currentVersion,
+        eventType: LambdaEdgeEventType.ORIGIN_REQUEST,
+        includeBody: true,
+      },
+    ]
+  }
+
   private createServerCachePolicy() {
+    const props = this.props.cachePolicy
+    const headers = [
+      ...new Set(
+        [
+          "accept",
+          "accept-encoding",
+          "rsc",
+          "next-router-prefetch",
+          "next-router-state-tree",
+          "next-url",
+          "x-prerender-revalidate",
+          ...(props?.additionalHeaders ?? []),
+        ].map((header) => header.toLowerCase())
+      ),
+    ]
+    // CloudFront allows at most 10 headers in a cache key
+    if (headers.length > 10) {
+      throw new Error(
+        `cachePolicy.additionalHeaders adds ${headers.length - 7} headers, but only 3 fit ` +
+          "in the cache key next to the 7 headers Next.js needs (CloudFront allows 10). " +
+          "Pass your own cachePolicy instead."
+      )
+    }
     return new CachePolicy(this, "OpenNextServerCachePolicy", {
       queryStringBehavior: CacheQueryStringBehavior.all(),
-      headerBehavior: CacheHeaderBehavior.allowList(
-        "accept",
-        "accept-encoding",
-        "rsc",
-        "next-router-prefetch",
-        "next-router-state-tree",
-        "next-url",
-        "x-prerender-revalidate"
-      ),
+      headerBehavior: CacheHeaderBehavior.allowList(...headers),
+      cookieBehavior: props?.cookies?.length
+        ? CacheCookieBehavior.allowList(...props.cookies)
+        : CacheCookieBehavior.none(),
+      defaultTtl: props?.defaultTtl ?? Duration.days(0),
+      maxTtl: props?.maxTtl ?? Duration.days(365),
+      minTtl: props?.minTtl ?? Duration.days(0),
+    })
+  }
+
+  private getCachePolicy(origin?: string) {
+    if (origin === "s3") {
+      return this.staticCachePolicy
+    }
+    if (origin === "imageOptimizer") {
+      return this.imageCachePolicy
+    }
+    return this.serverBehaviorCachePolicy
+  }
+
+  /**
+   * The image optimizer only reads the `url`, `w` and `q` query strings,
+   * and picks AVIF or WebP based on the `accept` header.
+   */
+  private createImageCachePolicy() {
+    if (this.props.imageOptimization?.cachePolicy) {
+      return this.props.imageOptimization.cachePolicy
+    }
+    return new CachePolicy(this, "OpenNextImageCachePolicy", {
+      queryStringBehavior: CacheQueryStringBehavior.allowList("url", "w", "q"),
+      headerBehavior: CacheHeaderBehavior.allowList("accept"),
       cookieBehavior: CacheCookieBehavior.none(),
-      defaultTtl: Duration.days(0),
+      defaultTtl: Duration.days(1),
       maxTtl: Duration.days(365),
       minTtl: Duration.days(0),
     })
   }
 
+  private createResponseHeadersPolicy(
+    id: string,
+    props: ResponseHeadersProps,
+    corsAllowOrigins?: string[]
+  ) {
+    const customHeaders = Object.entries(props.customHeaders ?? {}).map(
+      ([header, value]) => ({ header, value, override: true })
+    )
+    return new ResponseHeadersPolicy(this, id, {
+      comment: "Next.js response headers",
+      // Origins can still set their own values for the preset
+      securityHeadersBehavior:
+        props.securityHeaders === false
+          ? undefined
+          : {
+              strictTransportSecurity: {
+                accessControlMaxAge: Duration.days(730),
+                includeSubdomains: true,
+                override: false,
+              },
+              contentTypeOptions: { override: false },
+              referrerPolicy: {
+                referrerPolicy: HeadersReferrerPolicy.STRICT_ORIGIN_WHEN_CROSS_ORIGIN,
+                override: false,
+              },
+              frameOptions: {
+                frameOption: HeadersFrameOption.SAMEORIGIN,
+                override: false,
+              },
+            },
+      customHeadersBehavior: customHeaders.length > 0 ? { customHeaders } : undefined,
+      corsBehavior: corsAllowOrigins
+        ? {
+            accessControlAllowCredentials: false,
+            accessControlAllowHeaders: ["*"],
+            accessControlAllowMethods: ["GET", "HEAD", "OPTIONS"],
+            accessControlAllowOrigins: corsAllowOrigins,
+            originOverride: true,
+          }
+        : undefined,
+      removeHeaders: props.removeHeaders,
+    })
+  }
+
   private createStaticCachePolicy() {
     return CachePolicy.CACHING_OPTIMIZED
   }
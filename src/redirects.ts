@@ -0,0 +1,177 @@
+import { existsSync, readFileSync } from "fs"
+import * as path from "path"
+
+export type EdgeRedirectStatus = 301 | 302 | 307 | 308 | "rewrite"
+
+export type EdgeRedirect = {
+  source: string
+  destination: string
+  status: EdgeRedirectStatus
+}
+
+const STATUSES: EdgeRedirectStatus[] = [301, 302, 307, 308, "rewrite"]
+
+// CloudFront KeyValueStore limits
+const MAX_KEY_BYTES = 512
+const MAX_VALUE_BYTES = 1024
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+
+const FORMAT_HINT =
+  "Redirects files are JSON arrays of { source, destination, status } objects " +
+  "or CSV files with source,destination,status lines. CSV destinations may " +
+  "contain commas, but quoted values are not supported."
+
+function parseStatus(status: unknown): EdgeRedirectStatus | undefined {
+  if (status === undefined || status === "") {
+    return 301
+  }
+  const parsed =
+    typeof status === "string" && /^\d+$/.test(status) ? Number(status) : status
+  return STATUSES.includes(parsed as EdgeRedirectStatus)
+    ? (parsed as EdgeRedirectStatus)
+    : undefined
+}
+
+type ParsedRule = {
+  name: string
+  rule: unknown
+}
+
+function parseJson(content: string, errors: string[]): ParsedRule[] {
+  const rules = JSON.parse(content) as unknown
+  if (!Array.isArray(rules)) {
+    errors.push("the file must contain a JSON array")
+    return []
+  }
+  return rules.map((rule, index) => ({ name: `redirects[${index}]`, rule }))
+}
+
+/**
+ * The source ends at the first comma and the status is the last cell when
+ * it is a three digit number or `rewrite`, so destinations can contain
+ * commas, e.g. in query strings.
+ */
+function parseCsv(content: string, errors: string[]): ParsedRule[] {
+  const rules: ParsedRule[] = []
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    const name = `line ${index + 1}`
+    if (line === "" || (index === 0 && line.startsWith("source,"))) {
+      return
+    }
+    if (line.includes('"')) {
+      errors.push(`${name}: quoted CSV values are not supported`)
+      return
+    }
+    const sourceEnd = line.indexOf(",")
+    if (sourceEnd === -1) {
+      rules.push({ name, rule: { source: line } })
+      return
+    }
+    const source = line.slice(0, sourceEnd).trim()
+    let destination = line.slice(sourceEnd + 1)
+    let status: string | undefined
+    const statusStart = destination.lastIndexOf(",")
+    if (
+      statusStart !== -1 &&
+      /^(\d{3}|rewrite)?$/.test(destination.slice(statusStart + 1).trim())
+    ) {
+      status = destination.slice(statusStart + 1).trim()
+      destination = destination.slice(0, statusStart)
+    }
+    rules.push({ name, rule: { source, destination: destination.trim(), status } })
+  })
+  return rules
+}
+
+/**
+ * Reads and validates a redirects file for the edge redirects key value
+ * store. Throws a single error listing every problem found.
+ */
+export function loadRedirects(file: string): EdgeRedirect[] {
+  if (!existsSync(file)) {
+    throw new Error(`Redirects file '${file}' does not exist. ${FORMAT_HINT}`)
+  }
+  const content = readFileSync(file, "utf-8")
+  const errors: string[] = []
+  let rules: ParsedRule[]
+  try {
+    rules =
+      path.extname(file).toLowerCase() === ".csv"
+        ? parseCsv(content, errors)
+        : parseJson(content, errors)
+  } catch (error) {
+    throw new Error(
+      `Redirects file '${file}' is not valid JSON: ${(error as Error).message}. ${FORMAT_HINT}`
+    )
+  }
+
+  const redirects: EdgeRedirect[] = []
+  const sources = new Set<string>()
+  rules.forEach(({ name, rule }) => {
+    const { source, destination, status } = (rule ?? {}) as Record<string, unknown>
+    const parsedStatus = parseStatus(status)
+    if (typeof source !== "string" || !source.startsWith("/")) {
+      errors.push(`${name}: source must be a path starting with /`)
+    } else if (Buffer.byteLength(source) > MAX_KEY_BYTES) {
+      errors.push(`${name}: source exceeds ${MAX_KEY_BYTES} bytes`)
+    } else if (sources.has(source)) {
+      errors.push(`${name}: source '${source}' is duplicated`)
+    }
+    if (typeof destination !== "string" || destination === "") {
+      errors.push(`${name}: destination must be a non-empty string`)
+    } else if (
+      parsedStatus === "rewrite" &&
+      (!destination.startsWith("/") || destination.includes("?"))
+    ) {
+      errors.push(
+        `${name}: destination of a rewrite must be a path without a query string`
+      )
+    }
+    if (parsedStatus === undefined) {
+      errors.push(`${name}: status must be one of ${STATUSES.join(", ")}`)
+    }
+    if (typeof source === "string" && typeof destination === "string" && parsedStatus) {
+      sources.add(source)
+      redirects.push({ source, destination, status: parsedStatus })
+    }
+  })
+
+  for (const redirect of redirects) {
+    if (Buffer.byteLength(toKeyValueStoreValue(redirect)) > MAX_VALUE_BYTES) {
+      errors.push(`the destination of '${redirect.source}' is too long`)
+    }
+  }
+  if (
+    errors.length === 0 &&
+    Buffer.byteLength(toKeyValueStoreData(redirects)) > MAX_IMPORT_BYTES
+  ) {
+    errors.push("the redirects exceed the 5 MB key value store import limit")
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid redirects file '${file}':\n` +
+        errors.map((error) => `  - ${error}`).join("\n") +
+        `\n${FORMAT_HINT}`
+    )
+  }
+  return redirects
+}
+
+function toKeyValueStoreValue(redirect: EdgeRedirect) {
+  return `${redirect.status} ${redirect.destination}`
+}
+
+/**
+ * Serializes redirects in the CloudFront KeyValueStore import format.
+ * Values are the status, or `rewrite`, followed by a space and the
+ * destination.
+ */
+export function toKeyValueStoreData(redirects: EdgeRedirect[]): string {
+  return JSON.stringify({
+    data: redirects.map((redirect) => ({
+      key: redirect.source,
+      value: toKeyValueStoreValue(redirect),
+    })),
+  })
+}
@@ -0,0 +1,185 @@
+import {
+  CloudFrontKeyValueStoreClient,
+  DescribeKeyValueStoreCommand,
+  ListKeysCommand,
+  UpdateKeysCommand,
+} from "@aws-sdk/client-cloudfront-keyvaluestore"
+import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3"
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from "@aws-sdk/client-secrets-manager"
+import type { CloudFormationCustomResourceEvent } from "aws-lambda"
+import { handler } from "../src/key-value-store-sync.lambda"
+
+describe("key value store sync", () => {
+  const arn =
+    "arn:aws:cloudfront::123456789012:key-value-store/37c4a2f3-5c2b-4a4e-9a61-2b1c7e6e5b7a"
+  let store: Record<string, string>
+  let updates: any[]
+  let kvsSend: jest.SpyInstance
+
+  beforeEach(() => {
+    updates = []
+    kvsSend = jest
+      .spyOn(CloudFrontKeyValueStoreClient.prototype, "send")
+      .mockImplementation(async (command: any) => {
+        expect(command.input.KvsARN).toBe(arn)
+        if (command instanceof ListKeysCommand) {
+          return {
+            Items: Object.entries(store).map(([Key, Value]) => ({ Key, Value })),
+          }
+        }
+        if (command instanceof UpdateKeysCommand) {
+          expect(command.input.IfMatch).toBe(`E${updates.length}`)
+          updates.push({ Puts: command.input.Puts, Deletes: command.input.Deletes })
+        } else {
+          expect(command).toBeInstanceOf(DescribeKeyValueStoreCommand)
+        }
+        return { ETag: `E${updates.length}` }
+      })
+    jest.spyOn(S3Client.prototype, "send").mockImplementation(async (command: any) => {
+      expect(command).toBeInstanceOf(GetObjectCommand)
+      expect(command.input).toEqual({ Bucket: "assets", Key: "data.json" })
+      return {
+        Body: {
+          transformToString: async () =>
+            JSON.stringify({
+              data: [
+                { key: "/old", value: "301 /new" },
+                { key: "/docs", value: "rewrite /documentation" },
+              ],
+            }),
+        },
+      }
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const event = (
+    requestType: string,
+    options: {
+      redirects?: boolean
+      maintenance?: string
+      oldMaintenance?: string
+      basicAuth?: { SecretArn: string; Key: string }
+      oldBasicAuth?: { SecretArn: string; Key: string }
+    } = {}
+  ) =>
+    ({
+      RequestType: requestType,
+      ResourceProperties: {
+        KeyValueStoreArn: arn,
+        Redirects:
+          options.redirects === false
+            ? undefined
+            : { Bucket: "assets", Key: "data.json" },
+        Maintenance: options.maintenance,
+        BasicAuth: options.basicAuth,
+      },
+      OldResourceProperties: {
+        Maintenance: options.oldMaintenance,
+        BasicAuth: options.oldBasicAuth,
+      },
+    }) as unknown as CloudFormationCustomResourceEvent
+
+  it("should sync redirects and keep other keys", async () => {
+    store = {
+      "/old": "302 /new",
+      "/removed": "301 /gone",
+      maintenance: "on",
+      "maintenance-bypass": "secret",
+      "basic-auth": "admin:password",
+    }
+
+    expect(
+      await handler(event("Update", { maintenance: "off", oldMaintenance: "off" }))
+    ).toEqual({ PhysicalResourceId: arn })
+    expect(updates).toEqual([
+      {
+        Puts: [
+          { Key: "/old", Value: "301 /new" },
+          { Key: "/docs", Value: "rewrite /documentation" },
+        ],
+        Deletes: [{ Key: "/removed" }],
+      },
+    ])
+  })
+
+  it("should set the maintenance flag when it is created or changed", async () => {
+    store = { "/old": "301 /new", "/docs": "rewrite /documentation" }
+    await handler(event("Create", { maintenance: "off" }))
+    store.maintenance = "off"
+    await handler(event("Update", { maintenance: "off", oldMaintenance: "off" }))
+    await handler(event("Update", { maintenance: "on", oldMaintenance: "off" }))
+
+    expect(updates).toEqual([
+      { Puts: [{ Key: "maintenance", Value: "off" }], Deletes: [] },
+      { Puts: [{ Key: "maintenance", Value: "on" }], Deletes: [] },
+    ])
+  })
+
+  it("should copy the basic auth secret when it is created or changed", async () => {
+    const secrets: Record<string, string> = {
+      "arn:preview": JSON.stringify({ username: "admin", password: "s3cret" }),
+      "arn:other": JSON.stringify({ username: "admin", password: "rotated" }),
+      "arn:password": JSON.stringify({ password: "s3cret" }),
+    }
+    jest
+      .spyOn(SecretsManagerClient.prototype, "send")
+      .mockImplementation(async (command: any) => {
+        expect(command).toBeInstanceOf(GetSecretValueCommand)
+        return { SecretString: secrets[command.input.SecretId] }
+      })
+    const basicAuth = { SecretArn: "arn:preview", Key: "basic-auth" }
+    store = { "/old": "301 /new", "/docs": "rewrite /documentation" }
+    await handler(event("Create", { basicAuth }))
+    store["basic-auth"] = "set by an operator"
+    await handler(event("Update", { basicAuth, oldBasicAuth: basicAuth }))
+    await handler(
+      event("Update", {
+        basicAuth: { SecretArn: "arn:other", Key: "basic-auth" },
+        oldBasicAuth: basicAuth,
+      })
+    )
+
+    expect(updates).toEqual([
+      {
+        Puts: [
+          { Key: "basic-auth", Value: Buffer.from("admin:s3cret").toString("base64") },
+        ],
+        Deletes: [],
+      },
+      {
+        Puts: [
+          { Key: "basic-auth", Value: Buffer.from("admin:rotated").toString("base64") },
+        ],
+        Deletes: [],
+      },
+    ])
+    await expect(
+      handler(
+        event("Create", { basicAuth: { SecretArn: "arn:password", Key: "basic-auth" } })
+      )
+    ).rejects.toThrow("Secret arn:password needs username and password fields")
+  })
+
+  it("should only delete keys when redirects are synced", async () => {
+    store = { "/auth": "admin:password" }
+    await handler(event("Create", { redirects: false, maintenance: "off" }))
+
+    expect(updates).toEqual([
+      { Puts: [{ Key: "maintenance", Value: "off" }], Deletes: [] },
+    ])
+  })
+
+  it("should not change the store on delete", async () => {
+    store = {}
+    await handler(event("Delete", { maintenance: "on" }))
+
+    expect(kvsSend).not.toHaveBeenCalled()
+  })
+})
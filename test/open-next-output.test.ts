@@ -0,0 +1,158 @@
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { loadOpenNextOutput } from "../src/open-next-output"
+
+describe("loadOpenNextOutput", () => {
+  const fixtureDirs: string[] = []
+
+  const validOutput = () => ({
+    edgeFunctions: {},
+    origins: {
+      s3: {
+        type: "s3",
+        originPath: "/_assets",
+        copy: [{ from: "assets", to: "_assets", cached: true, versionedSubDir: "_next" }],
+      },
+      default: {
+        type: "function",
+        handler: "index.handler",
+        bundle: "server-function",
+        streaming: false,
+      },
+      imageOptimizer: {
+        type: "function",
+        handler: "index.handler",
+        bundle: "image-optimization-function",
+      },
+    },
+    behaviors: [
+      { pattern: "*", origin: "default" },
+      { pattern: "_next/image*", origin: "imageOptimizer" },
+      { pattern: "_next/static/*", origin: "s3" },
+    ],
+    additionalProps: {
+      revalidationFunction: {
+        handler: "index.handler",
+        bundle: "revalidation-function",
+      },
+    },
+  })
+
+  const createFixture = (output: unknown, directories?: string[]) => {
+    const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), "open-next-output-test-"))
+    fixtureDirs.push(fixtureDir)
+    const openNextPath = path.join(fixtureDir, ".open-next")
+    fs.mkdirSync(openNextPath)
+    for (const directory of directories ?? [
+      "assets",
+      "server-function",
+      "image-optimization-function",
+      "revalidation-function",
+    ]) {
+      fs.mkdirSync(path.join(fixtureDir, directory))
+    }
+    fs.writeFileSync(
+      path.join(openNextPath, "open-next.output.json"),
+      typeof output === "string" ? output : JSON.stringify(output)
+    )
+    return openNextPath
+  }
+
+  afterAll(() => {
+    fixtureDirs.forEach((dir) => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+  })
+
+  it("should load a valid output", () => {
+    const openNextPath = createFixture(validOutput())
+
+    const output = loadOpenNextOutput(openNextPath)
+
+    expect(output.origins.default.bundle).toBe("server-function")
+    expect(output.behaviors).toHaveLength(3)
+  })
+
+  it("should hint at running open-next build when the directory is missing", () => {
+    expect(() => loadOpenNextOutput("/does/not/exist/.open-next")).toThrow(
+      /OpenNext directory '\/does\/not\/exist\/.open-next' does not exist. Run `open-next build`/
+    )
+  })
+
+  it("should mention older OpenNext versions when the output file is missing", () => {
+    const openNextPath = createFixture(validOutput())
+    fs.rmSync(path.join(openNextPath, "open-next.output.json"))
+
+    expect(() => loadOpenNextOutput(openNextPath)).toThrow(
+      /OpenNext versions before 3.x do not create this file/
+    )
+  })
+
+  it("should report invalid JSON", () => {
+    const openNextPath = createFixture("{ not json")
+
+    expect(() => loadOpenNextOutput(openNextPath)).toThrow(/is not valid JSON/)
+  })
+
+  it("should report missing bundle directories", () => {
+    const openNextPath = createFixture(validOutput(), ["assets", "server-function"])
+
+    expect(() => loadOpenNextOutput(openNextPath)).toThrow(
+      /origins.imageOptimizer.bundle directory '.*image-optimization-function' does not exist/
+    )
+  })
+
+  it("should report all problems at once", () => {
+    const output: any = validOutput()
+    delete output.origins.imageOptimizer
+    output.origins.default.handler = 42
+    output.origins.s3.copy[0].cached = "yes"
+    output.behaviors.push({ pattern: "api/*", origin: "api" })
+    output.behaviors.push({ pattern: "mw/*", edgeFunction: "middleware" })
+    const openNextPath = createFixture(output)
+
+    let message = ""
+    try {
+      loadOpenNextOutput(openNextPath)
+    } catch (error) {
+      message = (error as Error).message
+    }
+
+    expect(message).toContain("origins.imageOptimizer is missing")
+    expect(message).toContain("origins.default.handler must be a string")
+    expect(message).toContain("origins.s3.copy[0].cached must be a boolean")
+    expect(message).toContain(
+      "behaviors[1] ('_next/image*') references unknown origin 'imageOptimizer'"
+    )
+    expect(message).toContain(
+      "behaviors[3] ('api/*') references unknown origin 'api'. Known origins: s3, default"
+    )
+    expect(message).toContain(
+      "behaviors[4] ('mw/*') references unknown edge function 'middleware'. " +
+        "Known edge functions: none"
+    )
+    expect(message).toContain("cdk-opennext supports the output of OpenNext 3.x")
+  })
+
+  it("should reject origins with the wrong type", () => {
+    const output: any = validOutput()
+    output.origins.default.type = "s3"
+    const openNextPath = createFixture(output)
+
+    expect(() => loadOpenNextOutput(openNextPath)).toThrow(
+      /origins.default.type must be "function"/
+    )
+  })
+
+  it("should accept origins of other types", () => {
+    const output: any = validOutput()
+    output.origins.extra = { type: "ecs", host: "example.com" }
+    output.behaviors.push({ pattern: "extra/*", origin: "extra" })
+
+    expect(loadOpenNextOutput(createFixture(output)).origins.extra).toEqual({
+      type: "ecs",
+      host: "example.com",
+    })
+  })
+})
@@ -1,12 +1,35 @@
 import * as fs from "fs"
 import * as os from "os"
 import * as path from "path"
+import { App } from "aws-cdk-lib"
 import { Annotations, Template, Match } from "aws-cdk-lib/assertions"
+import { Schedule as ScalingScheduleExpression } from "aws-cdk-lib/aws-applicationautoscaling"
 import { Certificate } from "aws-cdk-lib/aws-certificatemanager"
+import {
+  CachePolicy,
+  KeyValueStore,
+  OriginRequestPolicy,
+  ResponseHeadersPolicy,
+} from "aws-cdk-lib/aws-cloudfront"
+import { Alarm } from "aws-cdk-lib/aws-cloudwatch"
+import { LambdaDeploymentConfig } from "aws-cdk-lib/aws-codedeploy"
+import { SecurityGroup, SubnetType, Vpc } from "aws-cdk-lib/aws-ec2"
+import { Key } from "aws-cdk-lib/aws-kms"
+import { Architecture, LayerVersion, Runtime } from "aws-cdk-lib/aws-lambda"
 import { LogGroup } from "aws-cdk-lib/aws-logs"
 import { HostedZone } from "aws-cdk-lib/aws-route53"
-import { Duration, Stack } from "aws-cdk-lib/core"
-import { NextjsSite } from "../src/open-next"
+import { Bucket } from "aws-cdk-lib/aws-s3"
+import { ScheduleExpression } from "aws-cdk-lib/aws-scheduler"
+import { Secret } from "aws-cdk-lib/aws-secretsmanager"
+import { Topic } from "aws-cdk-lib/aws-sns"
+import { StringParameter } from "aws-cdk-lib/aws-ssm"
+import { CfnElement, Duration, RemovalPolicy, Stack, TimeZone } from "aws-cdk-lib/core"
+import {
+  ColdStartStrategy,
+  NextjsSite,
+  ServerFunctionProtection,
+  VpcFunction,
+} from "../src/open-next"
 
 describe("NextjsSite", () => {
   let stack: Stack
@@ -124,6 +147,31 @@ describe("NextjsSite", () => {
     }
   }
 
+  const findServerFunction = (template: Template) =>
+    Object.values(template.findResources("AWS::Lambda::Function")).find(
+      (fn: any) => fn.Properties?.Environment?.Variables?.CACHE_BUCKET_NAME
+    ) as any
+
+  // Evaluates the viewer request function with a cloudfront module whose key
+  // value store serves the keys in store
+  const createViewerRequestHandler = (
+    site: NextjsSite,
+    store: Record<string, string> = {},
+    cf: Record<string, unknown> = {}
+  ) =>
+    new Function(
+      "cf",
+      `${site.cloudfrontFunctionCode.replace('import cf from "cloudfront";', "")}; return handler`
+    )({
+      kvs: () => ({
+        get: async (key: string) => {
+          if (!(key in store)) throw new Error("Key not found")
+          return store[key]
+        },
+      }),
+      ...cf,
+    })
+
   beforeAll(() => {
     const fixture = createOpenNextFixture()
     openNextPath = fixture.openNextPath
@@ -590,6 +638,481 @@ describe("NextjsSite", () => {
     })
   })
 
+  describe("cache policy configuration", () => {
+    const getDistributionConfig = (template: Template) => {
+      const distributions = template.findResources("AWS::CloudFront::Distribution")
+      return (Object.values(distributions)[0] as any).Properties.DistributionConfig
+    }
+
+    it("should extend the server cache policy with headers, cookies and TTLs", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        cachePolicy: {
+          additionalHeaders: ["x-tenant"],
+          cookies: ["NEXT_LOCALE", "__prerender_bypass"],
+          defaultTtl: Duration.seconds(60),
+          maxTtl: Duration.days(30),
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::CloudFront::CachePolicy", {
+        CachePolicyConfig: {
+          DefaultTTL: 60,
+          MaxTTL: 2592000,
+          MinTTL: 0,
+          ParametersInCacheKeyAndForwardedToOrigin: {
+            CookiesConfig: {
+              CookieBehavior: "whitelist",
+              Cookies: ["NEXT_LOCALE", "__prerender_bypass"],
+            },
+            HeadersConfig: {
+              HeaderBehavior: "whitelist",
+              Headers: Match.arrayWith(["accept", "rsc", "x-tenant"]),
+            },
+          },
+        },
+      })
+    })
+
+    it("should throw when additionalHeaders exceed the cache key header limit", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath: openNextPath,
+          cachePolicy: {
+            additionalHeaders: ["x-tenant", "x-region", "x-plan", "x-variant"],
+          },
+        })
+      }).toThrow(/adds 4 headers, but only 3 fit in the cache key/)
+    })
+
+    it("should replace the server cache policy", () => {
+      const construct = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        cachePolicy: {
+          cachePolicy: CachePolicy.CACHING_DISABLED,
+        },
+      })
+
+      expect(construct.serverBehaviorCachePolicy).toBe(CachePolicy.CACHING_DISABLED)
+      expect(construct.serverCachePolicy).toBeInstanceOf(CachePolicy)
+      const template = Template.fromStack(stack)
+      expect(getDistributionConfig(template).DefaultCacheBehavior.CachePolicyId).toBe(
+        CachePolicy.CACHING_DISABLED.cachePolicyId
+      )
+    })
+
+    it("should override policies per behavior pattern", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        behaviorOverrides: {
+          "*": {
+            originRequestPolicy: OriginRequestPolicy.ALL_VIEWER,
+          },
+          "_next/static/*": {
+            cachePolicy: CachePolicy.CACHING_DISABLED,
+            originRequestPolicy: OriginRequestPolicy.CORS_S3_ORIGIN,
+          },
+        },
+      })
+
+      const config = getDistributionConfig(Template.fromStack(stack))
+      expect(config.DefaultCacheBehavior.OriginRequestPolicyId).toBe(
+        OriginRequestPolicy.ALL_VIEWER.originRequestPolicyId
+      )
+      const staticBehavior = config.CacheBehaviors.find(
+        (b: any) => b.PathPattern === "_next/static/*"
+      )
+      expect(staticBehavior.CachePolicyId).toBe(
+        CachePolicy.CACHING_DISABLED.cachePolicyId
+      )
+      expect(staticBehavior.OriginRequestPolicyId).toBe(
+        OriginRequestPolicy.CORS_S3_ORIGIN.originRequestPolicyId
+      )
+      const imageBehavior = config.CacheBehaviors.find(
+        (b: any) => b.PathPattern === "_next/image*"
+      )
+      expect(imageBehavior.OriginRequestPolicyId).toBe(
+        OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER.originRequestPolicyId
+      )
+    })
+
+    it("should throw for overrides of unknown behavior patterns", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath: openNextPath,
+          behaviorOverrides: {
+            "api/*": { cachePolicy: CachePolicy.CACHING_DISABLED },
+          },
+        })
+      }).toThrow("behaviorOverrides pattern 'api/*' does not match any behavior")
+    })
+  })
+
+  describe("image optimization", () => {
+    const findImageFunction = (template: Template) =>
+      Object.values(template.findResources("AWS::Lambda::Function")).find(
+        (fn: any) =>
+          fn.Properties?.Environment?.Variables?.BUCKET_KEY_PREFIX === "_assets"
+      ) as any
+
+    it("should use default image optimizer settings", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        defaultFunctionProps: { memorySize: 4096 },
+      })
+
+      const imageFn = findImageFunction(Template.fromStack(stack))
+      expect(imageFn.Properties.MemorySize).toBe(1024)
+      expect(imageFn.Properties.Timeout).toBe(25)
+      expect(imageFn.Properties.Architectures).toEqual(["arm64"])
+    })
+
+    it("should apply imageOptimization props to the image optimizer", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        imageOptimization: {
+          memorySize: 2048,
+          timeout: Duration.seconds(30),
+          architecture: Architecture.X86_64,
+          environment: {
+            OPENNEXT_STATIC_ETAG: "true",
+            BUCKET_NAME: "ignored",
+          },
+        },
+      })
+
+      const imageFn = findImageFunction(Template.fromStack(stack))
+      expect(imageFn.Properties.MemorySize).toBe(2048)
+      expect(imageFn.Properties.Timeout).toBe(30)
+      expect(imageFn.Properties.Architectures).toEqual(["x86_64"])
+      expect(imageFn.Properties.Environment.Variables.OPENNEXT_STATIC_ETAG).toBe("true")
+      expect(imageFn.Properties.Environment.Variables.BUCKET_NAME).not.toBe("ignored")
+    })
+
+    it("should use a dedicated cache policy for image requests", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+      })
+
+      const template = Template.fromStack(stack)
+      const policies = template.findResources("AWS::CloudFront::CachePolicy", {
+        Properties: {
+          CachePolicyConfig: {
+            ParametersInCacheKeyAndForwardedToOrigin: {
+              QueryStringsConfig: {
+                QueryStringBehavior: "whitelist",
+                QueryStrings: ["url", "w", "q"],
+              },
+              HeadersConfig: { HeaderBehavior: "whitelist", Headers: ["accept"] },
+            },
+          },
+        },
+      })
+      const imagePolicyId = Object.keys(policies)[0]
+      expect(imagePolicyId).toBeDefined()
+
+      const distributions = template.findResources("AWS::CloudFront::Distribution")
+      const config = (Object.values(distributions)[0] as any).Properties
+        .DistributionConfig
+      const imageBehavior = config.CacheBehaviors.find(
+        (b: any) => b.PathPattern === "_next/image*"
+      )
+      expect(imageBehavior.CachePolicyId).toEqual({ Ref: imagePolicyId })
+    })
+
+    it("should use a provided image cache policy", () => {
+      const construct = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        imageOptimization: {
+          cachePolicy: CachePolicy.CACHING_OPTIMIZED,
+        },
+      })
+
+      expect(construct.imageCachePolicy).toBe(CachePolicy.CACHING_OPTIMIZED)
+      Template.fromStack(stack).resourceCountIs("AWS::CloudFront::CachePolicy", 1)
+    })
+  })
+
+  describe("VPC placement", () => {
+    const findFunction = (template: Template, predicate: (fn: any) => boolean) =>
+      Object.values(template.findResources("AWS::Lambda::Function")).find(
+        predicate
+      ) as any
+    const isServer = (fn: any) =>
+      !!fn.Properties?.Environment?.Variables?.CACHE_BUCKET_NAME
+    const isImage = (fn: any) =>
+      fn.Properties?.Environment?.Variables?.BUCKET_KEY_PREFIX === "_assets"
+    const hasDescription = (description: string) => (fn: any) =>
+      fn.Properties?.Description === description
+
+    it("should place only the server functions in the VPC by default", () => {
+      const vpc = new Vpc(stack, "Vpc")
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        vpc,
+      })
+
+      const template = Template.fromStack(stack)
+      expect(findFunction(template, isServer).Properties.VpcConfig).toBeDefined()
+      expect(findFunction(template, isImage).Properties.VpcConfig).toBeUndefined()
+      expect(
+        findFunction(template, hasDescription("Next.js revalidator")).Properties.VpcConfig
+      ).toBeUndefined()
+      template.resourceCountIs("AWS::EC2::VPCEndpoint", 0)
+    })
+
+    it("should place the selected functions in the VPC", () => {
+      const vpc = new Vpc(stack, "Vpc")
+      const securityGroup = new SecurityGroup(stack, "Sg", { vpc })
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        vpc,
+        vpcSubnets: { subnetType: SubnetType.PRIVATE_WITH_EGRESS },
+        securityGroups: [securityGroup],
+        vpcFunctions: [
+          VpcFunction.SERVER,
+          VpcFunction.IMAGE_OPTIMIZER,
+          VpcFunction.REVALIDATION,
+          VpcFunction.INITIALIZATION,
+        ],
+      })
+
+      const template = Template.fromStack(stack)
+      const sgId = Object.keys(template.findResources("AWS::EC2::SecurityGroup")).find(
+        (id) => id.startsWith("Sg")
+      )
+      for (const predicate of [
+        isServer,
+        isImage,
+        hasDescription("Next.js revalidator"),
+        hasDescription("Next.js revalidation data insert"),
+      ]) {
+        const vpcConfig = findFunction(template, predicate).Properties.VpcConfig
+        expect(vpcConfig).toBeDefined()
+        expect(vpcConfig.SecurityGroupIds).toEqual([{ "Fn::GetAtt": [sgId, "GroupId"] }])
+      }
+    })
+
+    it("should let defaultFunctionProps override the VPC settings", () => {
+      const vpc = new Vpc(stack, "Vpc")
+      const otherVpc = new Vpc(stack, "OtherVpc")
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        vpc,
+        defaultFunctionProps: { vpc: otherVpc },
+      })
+
+      const template = Template.fromStack(stack)
+      const serverFn = findFunction(template, isServer)
+      expect(JSON.stringify(serverFn.Properties.VpcConfig)).toContain("OtherVpc")
+    })
+
+    it("should create VPC endpoints when requested", () => {
+      const vpc = new Vpc(stack, "Vpc")
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        vpc,
+        createVpcEndpoints: true,
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::EC2::VPCEndpoint", 3)
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Gateway",
+        ServiceName: Match.objectLike({
+          "Fn::Join": ["", Match.arrayWith([".s3"])],
+        }),
+      })
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Gateway",
+        ServiceName: Match.objectLike({
+          "Fn::Join": ["", Match.arrayWith([".dynamodb"])],
+        }),
+      })
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Interface",
+        PrivateDnsEnabled: true,
+      })
+    })
+
+    it("should only create the S3 endpoint without revalidation resources", () => {
+      const noCacheOutput = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      noCacheOutput.additionalProps.disableIncrementalCache = true
+      delete noCacheOutput.additionalProps.initializationFunction
+      const fixture = createOpenNextFixture(noCacheOutput)
+      const vpc = new Vpc(stack, "Vpc")
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        vpc,
+        createVpcEndpoints: true,
+      })
+
+      Template.fromStack(stack).resourceCountIs("AWS::EC2::VPCEndpoint", 1)
+    })
+
+    it("should throw when VPC options are set without a VPC", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath: openNextPath,
+          createVpcEndpoints: true,
+        })
+      }).toThrow("vpcSubnets, securityGroups and createVpcEndpoints require vpc")
+    })
+  })
+
+  describe("functionProps", () => {
+    const createSplitFixture = () => {
+      const splitOutput = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      splitOutput.origins.api = {
+        type: "function",
+        handler: "api.handler",
+        bundle: "server-function",
+      }
+      splitOutput.behaviors.push({ pattern: "api/*", origin: "api" })
+      return createOpenNextFixture(splitOutput)
+    }
+    const findByHandler = (template: Template, handler: string) =>
+      Object.values(template.findResources("AWS::Lambda::Function")).find(
+        (fn: any) => fn.Properties?.Handler === handler
+      ) as any
+
+    it("should apply defaultFunctionProps to additional function origins", () => {
+      const fixture = createSplitFixture()
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        defaultFunctionProps: {
+          memorySize: 2048,
+          environment: { SHARED: "yes" },
+        },
+      })
+
+      const apiFn = findByHandler(Template.fromStack(stack), "api.handler")
+      expect(apiFn.Properties.MemorySize).toBe(2048)
+      expect(apiFn.Properties.Environment.Variables.SHARED).toBe("yes")
+    })
+
+    it("should merge functionProps over defaultFunctionProps per origin", () => {
+      const fixture = createSplitFixture()
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        defaultFunctionProps: {
+          memorySize: 2048,
+          timeout: Duration.seconds(15),
+          environment: { SHARED: "yes", OVERRIDDEN: "default" },
+        },
+        functionProps: {
+          api: {
+            memorySize: 512,
+            environment: { OVERRIDDEN: "api" },
+          },
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      const apiFn = findByHandler(template, "api.handler")
+      expect(apiFn.Properties.MemorySize).toBe(512)
+      expect(apiFn.Properties.Timeout).toBe(15)
+      expect(apiFn.Properties.Environment.Variables).toMatchObject({
+        SHARED: "yes",
+        OVERRIDDEN: "api",
+      })
+
+      const defaultFn = Object.values(
+        template.findResources("AWS::Lambda::Function")
+      ).find(
+        (fn: any) =>
+          fn.Properties?.Handler === "index.handler" &&
+          fn.Properties?.Environment?.Variables?.OVERRIDDEN
+      ) as any
+      expect(defaultFn.Properties.MemorySize).toBe(2048)
+      expect(defaultFn.Properties.Environment.Variables.OVERRIDDEN).toBe("default")
+    })
+
+    it("should throw for a functionName in defaultFunctionProps shared by functions", () => {
+      const fixture = createSplitFixture()
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath: fixture.openNextPath,
+          defaultFunctionProps: { functionName: "site-server" },
+        })
+      }).toThrow(
+        /defaultFunctionProps.functionName would give the server functions default, api the same name/
+      )
+    })
+
+    it("should allow a functionName in defaultFunctionProps inherited once", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        defaultFunctionProps: { functionName: "site-server" },
+      })
+      new NextjsSite(new Stack(), "TestOpenNext", {
+        openNextPath: createSplitFixture().openNextPath,
+        defaultFunctionProps: { functionName: "site-server" },
+        functionProps: { api: { functionName: "site-api" } },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        FunctionName: "site-server",
+      })
+    })
+
+    it("should name functions through functionProps", () => {
+      const fixture = createSplitFixture()
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        defaultFunctionProps: { memorySize: 2048 },
+        functionProps: {
+          api: { functionName: "site-api" },
+        },
+      })
+
+      const apiFn = findByHandler(Template.fromStack(stack), "api.handler")
+      expect(apiFn.Properties.FunctionName).toBe("site-api")
+      expect(apiFn.Properties.MemorySize).toBe(2048)
+    })
+
+    it("should expose every server function by origin key", () => {
+      const fixture = createSplitFixture()
+      const construct = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+      })
+
+      expect(Object.keys(construct.serverFunctions).sort()).toEqual(["api", "default"])
+      expect(construct.serverFunctions.default).toBe(construct.defaultServerFunction)
+    })
+
+    it("should throw for functionProps of unknown origins", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath: openNextPath,
+          functionProps: {
+            imageOptimizer: { memorySize: 2048 },
+          },
+        })
+      }).toThrow(
+        "functionProps contains unknown server origins: imageOptimizer. " +
+          "Known server origins: default"
+      )
+    })
+
+    it("should skip origins of other types with a warning", () => {
+      const output = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      output.origins.backend = { type: "ecs" }
+      const construct = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: createOpenNextFixture(output).openNextPath,
+        createDistribution: false,
+      })
+
+      expect(Object.keys(construct.origins)).toEqual(["s3", "default", "imageOptimizer"])
+      Annotations.fromStack(stack).hasWarning(
+        "/Default/TestOpenNext",
+        Match.stringLikeRegexp("Origin 'backend' .* has type 'ecs', which this construct")
+      )
+    })
+  })
+
   describe("bucket deployment", () => {
     it("should create bucket deployments for static assets", () => {
       new NextjsSite(stack, "TestOpenNext", {
@@ -601,6 +1124,91 @@ describe("NextjsSite", () => {
       // BucketDeployment creates a custom resource
       template.resourceCountIs("Custom::CDKBucketDeployment", 1)
     })
+
+    describe("cache control", () => {
+      const createAssetsFixture = () => {
+        const assetsOutput = JSON.parse(JSON.stringify(mockOpenNextOutput))
+        assetsOutput.origins.s3.copy.push({
+          from: "cache",
+          to: "_cache",
+          cached: false,
+        })
+        const fixture = createOpenNextFixture(assetsOutput)
+        fs.mkdirSync(path.join(fixture.fixtureDir, "assets", "_next", "static"), {
+          recursive: true,
+        })
+        fs.writeFileSync(
+          path.join(fixture.fixtureDir, "assets", "_next", "static", "app.js"),
+          "console.log(1)"
+        )
+        fs.writeFileSync(path.join(fixture.fixtureDir, "assets", "index.html"), "<html>")
+        fs.mkdirSync(path.join(fixture.fixtureDir, "cache"))
+        fs.writeFileSync(path.join(fixture.fixtureDir, "cache", "page.cache"), "{}")
+        return fixture
+      }
+
+      const findDeployment = (template: Template, prefix: string) =>
+        Object.values(template.findResources("Custom::CDKBucketDeployment")).find(
+          (deployment: any) => deployment.Properties.DestinationBucketKeyPrefix === prefix
+        ) as any
+
+      it("should set immutable and revalidating Cache-Control headers", () => {
+        const fixture = createAssetsFixture()
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath: fixture.openNextPath,
+        })
+
+        const template = Template.fromStack(stack)
+        template.resourceCountIs("Custom::CDKBucketDeployment", 3)
+        expect(
+          findDeployment(template, "_assets/_next").Properties.SystemMetadata
+        ).toEqual({
+          "cache-control": "public,max-age=31536000,immutable",
+        })
+        expect(findDeployment(template, "_assets").Properties.SystemMetadata).toEqual({
+          "cache-control": "public,max-age=0,s-maxage=31536000,must-revalidate",
+        })
+        expect(
+          findDeployment(template, "_cache").Properties.SystemMetadata
+        ).toBeUndefined()
+      })
+
+      it("should apply Cache-Control overrides per copy destination", () => {
+        const fixture = createAssetsFixture()
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath: fixture.openNextPath,
+          assetCacheControl: {
+            _assets: { unversioned: "public,max-age=60" },
+            _cache: { unversioned: "no-store" },
+          },
+        })
+
+        const template = Template.fromStack(stack)
+        expect(
+          findDeployment(template, "_assets/_next").Properties.SystemMetadata
+        ).toEqual({
+          "cache-control": "public,max-age=31536000,immutable",
+        })
+        expect(findDeployment(template, "_assets").Properties.SystemMetadata).toEqual({
+          "cache-control": "public,max-age=60",
+        })
+        expect(findDeployment(template, "_cache").Properties.SystemMetadata).toEqual({
+          "cache-control": "no-store",
+        })
+      })
+
+      it("should throw for overrides of unknown destinations", () => {
+        expect(() => {
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath: openNextPath,
+            assetCacheControl: { assets: { unversioned: "no-store" } },
+          })
+        }).toThrow(
+          "assetCacheControl contains unknown destinations: assets. " +
+            "Known destinations: _assets"
+        )
+      })
+    })
   })
 
   describe("custom resource for revalidation initialization", () => {
@@ -1037,11 +1645,107 @@ describe("NextjsSite", () => {
           "or provide your own certificate."
       )
     })
-  })
-
-  describe("Lambda warming", () => {
-    let warmerTestDir: string
-    let warmerOpenNextPath: string
+
+    it("should add alternate names to the certificate, distribution and DNS", () => {
+      const customStack = new Stack(undefined, undefined, {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      const hostedZone = HostedZone.fromHostedZoneAttributes(customStack, "HostedZone", {
+        hostedZoneId: "Z1234567890ABC",
+        zoneName: "example.com",
+      })
+
+      new NextjsSite(customStack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        customDomain: {
+          domainName: "example.com",
+          alternateNames: ["www.example.com"],
+          hostedZone: hostedZone,
+        },
+      })
+
+      const template = Template.fromStack(customStack)
+      template.hasResourceProperties("AWS::CloudFormation::CustomResource", {
+        DomainName: "example.com",
+        SubjectAlternativeNames: ["www.example.com"],
+      })
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: {
+          Aliases: ["example.com", "www.example.com"],
+        },
+      })
+      template.resourceCountIs("AWS::Route53::RecordSet", 4)
+      template.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: "www.example.com.",
+        Type: "AAAA",
+      })
+    })
+
+    it("should redirect alternate names to the domain name", () => {
+      const customStack = new Stack(undefined, undefined, {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      const hostedZone = HostedZone.fromHostedZoneAttributes(customStack, "HostedZone", {
+        hostedZoneId: "Z1234567890ABC",
+        zoneName: "example.com",
+      })
+
+      const site = new NextjsSite(customStack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        customDomain: {
+          domainName: "example.com",
+          alternateNames: ["www.example.com"],
+          redirectAlternateNames: true,
+          hostedZone: hostedZone,
+        },
+      })
+
+      const handler = new Function(`${site.cloudfrontFunctionCode}; return handler`)()
+      const request = (host: string) => ({
+        request: {
+          uri: "/blog",
+          headers: { host: { value: host } },
+          querystring: {
+            page: { value: "2" },
+            tag: { value: "a", multiValue: [{ value: "a" }, { value: "b" }] },
+          },
+        },
+      })
+
+      expect(handler(request("www.example.com"))).toEqual({
+        statusCode: 301,
+        statusDescription: "Moved Permanently",
+        headers: { location: { value: "https://example.com/blog?page=2&tag=a&tag=b" } },
+      })
+      expect(handler(request("example.com")).headers["x-forwarded-host"]).toEqual({
+        value: "example.com",
+      })
+    })
+
+    it("should not redirect without redirectAlternateNames", () => {
+      const customStack = new Stack(undefined, undefined, {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      const site = new NextjsSite(customStack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        customDomain: {
+          domainName: "example.com",
+          alternateNames: ["www.example.com"],
+          certificate: Certificate.fromCertificateArn(
+            customStack,
+            "Certificate",
+            "arn:aws:acm:us-east-1:123456789012:certificate/abc"
+          ),
+        },
+      })
+
+      expect(site.cloudfrontFunctionCode).not.toContain("301")
+    })
+  })
+
+  describe("Lambda warming", () => {
+    let warmerTestDir: string
+    let warmerOpenNextPath: string
 
     beforeAll(() => {
       // Create temporary directory with warmer support
@@ -1127,6 +1831,152 @@ describe("NextjsSite", () => {
       })
     })
 
+    it("should warm the server function alias when deployment is enabled", () => {
+      const warmerStack = new Stack()
+      new NextjsSite(warmerStack, "TestOpenNext", {
+        openNextPath: warmerOpenNextPath,
+        deployment: {},
+      })
+
+      const template = Template.fromStack(warmerStack)
+      const functions = template.findResources("AWS::Lambda::Function")
+      const warmerFn = Object.values(functions).find(
+        (fn: any) => fn.Properties?.Description === "Next.js warmer"
+      ) as any
+      const warmParams = JSON.stringify(warmerFn.Properties.Environment.Variables)
+      expect(warmParams).toContain(":live")
+    })
+
+    it("should warm each origin in a warm map", () => {
+      const splitOutput = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      splitOutput.origins.api = { ...splitOutput.origins.default, handler: "api.handler" }
+      splitOutput.behaviors.push({ pattern: "api/*", origin: "api" })
+      splitOutput.additionalProps.warmer = {
+        handler: "index.handler",
+        bundle: "server-function",
+      }
+      const fixture = createOpenNextFixture(splitOutput)
+      const warmerStack = new Stack()
+      new NextjsSite(warmerStack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        warm: { default: 5, api: 2, imageOptimizer: 1 },
+      })
+
+      const template = Template.fromStack(warmerStack)
+      const functions = template.findResources("AWS::Lambda::Function")
+      const warmerFn = Object.values(functions).find(
+        (fn: any) => fn.Properties?.Description === "Next.js warmer"
+      ) as any
+      // Function names are tokens, so WARM_PARAMS is an Fn::Join
+      const warmParams = JSON.parse(
+        warmerFn.Properties.Environment.Variables.WARM_PARAMS["Fn::Join"][1]
+          .map((part: any) => (typeof part === "string" ? part : "function"))
+          .join("")
+      )
+      expect(warmParams.map((param: any) => param.concurrency)).toEqual([5, 2, 1])
+
+      const warmedFunctions = Object.values(functions).filter(
+        (fn: any) => fn.Properties?.Environment?.Variables?.WARMER_ENABLED === "true"
+      )
+      expect(warmedFunctions.map((fn: any) => fn.Properties.Handler).sort()).toEqual([
+        "api.handler",
+        "index.handler",
+        "index.handler",
+      ])
+    })
+
+    it("should warm with a warmer per warming window", () => {
+      const warmerStack = new Stack()
+      new NextjsSite(warmerStack, "TestOpenNext", {
+        openNextPath: warmerOpenNextPath,
+        warmingWindows: [
+          {
+            schedule: ScheduleExpression.cron({
+              minute: "0/5",
+              hour: "8-18",
+              weekDay: "MON-FRI",
+              timeZone: TimeZone.EUROPE_BERLIN,
+            }),
+            concurrency: 10,
+          },
+          {
+            schedule: ScheduleExpression.cron({
+              minute: "0/15",
+              hour: "0-7,19-23",
+              timeZone: TimeZone.EUROPE_BERLIN,
+            }),
+            concurrency: { default: 1, imageOptimizer: 1 },
+          },
+        ],
+      })
+
+      const template = Template.fromStack(warmerStack)
+      template.resourceCountIs("AWS::Events::Rule", 0)
+      template.resourceCountIs("AWS::Scheduler::Schedule", 2)
+      template.hasResourceProperties("AWS::Scheduler::Schedule", {
+        ScheduleExpression: "cron(0/5 8-18 ? * MON-FRI *)",
+        ScheduleExpressionTimezone: "Europe/Berlin",
+        Target: Match.objectLike({
+          RetryPolicy: Match.objectLike({ MaximumRetryAttempts: 0 }),
+        }),
+      })
+
+      // The default warmer is kept for pre-warming on deploy
+      const warmers = Object.values(
+        template.findResources("AWS::Lambda::Function")
+      ).filter((fn: any) => fn.Properties?.Description === "Next.js warmer")
+      expect(warmers).toHaveLength(3)
+      const concurrencies = warmers.map((fn: any) =>
+        JSON.parse(
+          fn.Properties.Environment.Variables.WARM_PARAMS["Fn::Join"][1]
+            .map((part: any) => (typeof part === "string" ? part : "function"))
+            .join("")
+        ).map((param: any) => param.concurrency)
+      )
+      expect(concurrencies).toEqual([[1], [10], [1, 1]])
+    })
+
+    it("should skip the default warmer in warming windows without pre-warming", () => {
+      const warmerStack = new Stack()
+      new NextjsSite(warmerStack, "TestOpenNext", {
+        openNextPath: warmerOpenNextPath,
+        prewarmOnDeploy: false,
+        warmingWindows: [
+          { schedule: ScheduleExpression.rate(Duration.minutes(5)), concurrency: 2 },
+        ],
+      })
+
+      const template = Template.fromStack(warmerStack)
+      const warmers = Object.values(
+        template.findResources("AWS::Lambda::Function")
+      ).filter((fn: any) => fn.Properties?.Description === "Next.js warmer")
+      expect(warmers).toHaveLength(1)
+      template.resourceCountIs("AWS::Scheduler::Schedule", 1)
+    })
+
+    it("should not warm in warming windows when warm is false", () => {
+      const warmerStack = new Stack()
+      new NextjsSite(warmerStack, "TestOpenNext", {
+        openNextPath: warmerOpenNextPath,
+        warm: false,
+        warmingWindows: [
+          { schedule: ScheduleExpression.rate(Duration.minutes(5)), concurrency: 2 },
+        ],
+      })
+
+      const template = Template.fromStack(warmerStack)
+      template.resourceCountIs("AWS::Scheduler::Schedule", 0)
+    })
+
+    it("should throw for warm entries of unknown origins", () => {
+      expect(() => {
+        new NextjsSite(new Stack(), "TestOpenNext", {
+          openNextPath: warmerOpenNextPath,
+          warm: { default: 1, missing: 1 },
+        })
+      }).toThrow(/warm contains unknown function origins: missing/)
+    })
+
     it("should not create warmer when warm: false", () => {
       const warmerStack = new Stack()
       new NextjsSite(warmerStack, "TestOpenNext", {
@@ -1785,4 +2635,2005 @@ describe("NextjsSite", () => {
       )
     })
   })
+
+  describe("edge functions", () => {
+    const createEdgeFixture = () => {
+      const edgeOutput = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      edgeOutput.edgeFunctions = {
+        middleware: { handler: "index.handler", bundle: "middleware" },
+      }
+      edgeOutput.behaviors = [
+        { pattern: "*", origin: "default", edgeFunction: "middleware" },
+        { pattern: "api/*", origin: "default", edgeFunction: "middleware" },
+        ...edgeOutput.behaviors.filter((b: any) => b.pattern !== "*"),
+      ]
+      const fixture = createOpenNextFixture(edgeOutput)
+      fs.mkdirSync(path.join(fixture.fixtureDir, "middleware"), { recursive: true })
+      fs.writeFileSync(
+        path.join(fixture.fixtureDir, "middleware", "index.js"),
+        dummyHandler
+      )
+      return fixture
+    }
+
+    it("should not grant secrets to edge function roles", () => {
+      const fixture = createEdgeFixture()
+      const edgeStack = new Stack(new App(), "EdgeStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      new NextjsSite(edgeStack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        secrets: { API_KEY: { secret: new Secret(edgeStack, "ApiKey") } },
+      })
+
+      const policies = Object.values(
+        Template.fromStack(edgeStack).findResources("AWS::IAM::Policy")
+      ) as any[]
+      const edgePolicies = policies.filter((policy) =>
+        JSON.stringify(policy.Properties.Roles).includes("EdgeFunctionRole")
+      )
+      expect(edgePolicies).not.toHaveLength(0)
+      expect(JSON.stringify(edgePolicies)).not.toContain("secretsmanager:GetSecretValue")
+      expect(JSON.stringify(policies)).toContain("secretsmanager:GetSecretValue")
+    })
+
+    it("should not create edge functions when OpenNext has none", () => {
+      const construct = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+      })
+
+      expect(construct.edgeFunctions).toEqual({})
+      const template = Template.fromStack(stack)
+      const distributions = template.findResources("AWS::CloudFront::Distribution")
+      const config = (Object.values(distributions)[0] as any).Properties
+        .DistributionConfig
+      expect(config.DefaultCacheBehavior.LambdaFunctionAssociations).toBeUndefined()
+    })
+
+    it("should attach edge functions to behaviors that reference them", () => {
+      const fixture = createEdgeFixture()
+      const app = new App()
+      const edgeStack = new Stack(app, "EdgeStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      const construct = new NextjsSite(edgeStack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+      })
+
+      expect(Object.keys(construct.edgeFunctions)).toEqual(["middleware"])
+      const template = Template.fromStack(edgeStack)
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Description: "Next.js edge function middleware",
+        Architectures: ["x86_64"],
+      })
+
+      const distributions = template.findResources("AWS::CloudFront::Distribution")
+      const config = (Object.values(distributions)[0] as any).Properties
+        .DistributionConfig
+      expect(config.DefaultCacheBehavior.LambdaFunctionAssociations).toEqual([
+        expect.objectContaining({ EventType: "origin-request", IncludeBody: true }),
+      ])
+      const apiBehavior = config.CacheBehaviors.find(
+        (b: any) => b.PathPattern === "api/*"
+      )
+      expect(apiBehavior.LambdaFunctionAssociations).toHaveLength(1)
+      const staticBehavior = config.CacheBehaviors.find(
+        (b: any) => b.PathPattern === "_next/static/*"
+      )
+      expect(staticBehavior.LambdaFunctionAssociations).toBeUndefined()
+    })
+
+    it("should keep the behavior settings when serving the maintenance page", async () => {
+      const fixture = createEdgeFixture()
+      const edgeStack = new Stack(new App(), "EdgeStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      const site = new NextjsSite(edgeStack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        maintenance: { enabled: true },
+      })
+
+      const config = (
+        Object.values(
+          Template.fromStack(edgeStack).findResources("AWS::CloudFront::Distribution")
+        )[0] as any
+      ).Properties.DistributionConfig
+      expect(config.Origins.map((origin: any) => origin.Id)).toContain("S3Bucket")
+      expect(config.DefaultCacheBehavior.OriginRequestPolicyId).toBeDefined()
+      expect(config.DefaultCacheBehavior.LambdaFunctionAssociations).toEqual([
+        expect.objectContaining({ EventType: "origin-request" }),
+      ])
+
+      const selectedOrigins: string[] = []
+      const viewerRequest = createViewerRequestHandler(
+        site,
+        { maintenance: "on" },
+        { selectRequestOriginById: (originId: string) => selectedOrigins.push(originId) }
+      )
+      const request = await viewerRequest({
+        viewer: { ip: "198.51.100.1" },
+        request: {
+          method: "GET",
+          uri: "/blog",
+          headers: { host: { value: "example.com" }, cookie: { value: "a=b" } },
+          querystring: { page: { value: "2" } },
+          cookies: { a: { value: "b" } },
+        },
+      })
+      expect(request.uri).toBe("/_maintenance/index.html")
+      expect(request.querystring).toEqual({})
+      expect(request.cookies).toEqual({ a: { value: "b" } })
+      expect(selectedOrigins).toEqual(["S3Bucket"])
+    })
+
+    it("should deploy edge functions to us-east-1 from other regions", () => {
+      const fixture = createEdgeFixture()
+      const app = new App()
+      const siteStack = new Stack(app, "SiteStack", {
+        env: { account: "123456789012", region: "eu-west-1" },
+      })
+      new NextjsSite(siteStack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+      })
+
+      const assembly = app.synth()
+      const edgeStackArtifact = assembly.stacks.find((s) => s.stackName !== "SiteStack")
+      expect(edgeStackArtifact?.environment.region).toBe("us-east-1")
+      Template.fromJSON(edgeStackArtifact!.template).hasResourceProperties(
+        "AWS::Lambda::Function",
+        { Description: "Next.js edge function middleware" }
+      )
+
+      // Grants are added from the site stack to the role by its generated name
+      const roles = Template.fromJSON(edgeStackArtifact!.template).findResources(
+        "AWS::IAM::Role"
+      )
+      const roleName = (Object.values(roles)[0] as any).Properties.RoleName
+      expect(typeof roleName).toBe("string")
+      const siteStackArtifact = assembly.getStackByName("SiteStack")
+      const policies = Template.fromJSON(siteStackArtifact.template).findResources(
+        "AWS::IAM::Policy"
+      )
+      expect(
+        Object.values(policies).some((policy: any) =>
+          (policy.Properties?.Roles ?? []).includes(roleName)
+        )
+      ).toBe(true)
+    })
+
+    it("should apply edgeFunctionProps to edge functions", () => {
+      const fixture = createEdgeFixture()
+      const app = new App()
+      const edgeStack = new Stack(app, "EdgeStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      new NextjsSite(edgeStack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        edgeFunctionProps: {
+          runtime: Runtime.NODEJS_20_X,
+          memorySize: 512,
+          timeout: Duration.seconds(10),
+        },
+      })
+
+      Template.fromStack(edgeStack).hasResourceProperties("AWS::Lambda::Function", {
+        Description: "Next.js edge function middleware",
+        Runtime: "nodejs20.x",
+        MemorySize: 512,
+        Timeout: 10,
+      })
+    })
+
+    it("should grant edge functions the server cache permissions", () => {
+      const fixture = createEdgeFixture()
+      const app = new App()
+      const edgeStack = new Stack(app, "EdgeStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      new NextjsSite(edgeStack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+      })
+
+      const template = Template.fromStack(edgeStack)
+      const roles = template.findResources("AWS::IAM::Role")
+      const edgeRoleId = Object.keys(roles).find((id) =>
+        id.includes("middlewareEdgeFunctionRole")
+      )
+      expect(edgeRoleId).toBeDefined()
+      expect(
+        JSON.stringify((roles[edgeRoleId!] as any).Properties.AssumeRolePolicyDocument)
+      ).toContain("edgelambda.amazonaws.com")
+
+      const policies = template.findResources("AWS::IAM::Policy")
+      const edgePolicy = Object.values(policies).find((policy: any) =>
+        (policy.Properties?.Roles ?? []).some((role: any) => role.Ref === edgeRoleId)
+      )
+      const actions = JSON.stringify((edgePolicy as any).Properties.PolicyDocument)
+      expect(actions).toContain("s3:PutObject")
+      expect(actions).toContain("dynamodb:PutItem")
+      expect(actions).toContain("sqs:SendMessage")
+    })
+
+    it("should throw when a behavior references an unknown edge function", () => {
+      const fixture = createEdgeFixture()
+      const output = JSON.parse(
+        fs.readFileSync(path.join(fixture.openNextPath, "open-next.output.json"), "utf-8")
+      )
+      output.behaviors[1].edgeFunction = "missing"
+      fs.writeFileSync(
+        path.join(fixture.openNextPath, "open-next.output.json"),
+        JSON.stringify(output)
+      )
+      const app = new App()
+      const edgeStack = new Stack(app, "EdgeStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+
+      expect(() => {
+        new NextjsSite(edgeStack, "TestOpenNext", {
+          openNextPath: fixture.openNextPath,
+        })
+      }).toThrow("references unknown edge function 'missing'")
+    })
+  })
+
+  describe("protectServerFunctions", () => {
+    it("should keep server function URLs public by default", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::Lambda::Url", {
+        AuthType: "NONE",
+      })
+      // Only the S3 bucket and image optimizer use OAC
+      template.resourceCountIs("AWS::CloudFront::OriginAccessControl", 2)
+    })
+
+    it("should use IAM auth and OAC for server function URLs", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        protectServerFunctions: ServerFunctionProtection.OAC,
+      })
+
+      const template = Template.fromStack(stack)
+      const urls = template.findResources("AWS::Lambda::Url")
+      expect(Object.keys(urls).length).toBe(2)
+      Object.values(urls).forEach((url: any) => {
+        expect(url.Properties.AuthType).toBe("AWS_IAM")
+      })
+      template.resourceCountIs("AWS::CloudFront::OriginAccessControl", 3)
+      template.hasResourceProperties("AWS::Lambda::Permission", {
+        Action: "lambda:InvokeFunctionUrl",
+        Principal: "cloudfront.amazonaws.com",
+        FunctionName: {
+          "Fn::GetAtt": [Match.stringLikeRegexp("defaultFunction"), "FunctionArn"],
+        },
+      })
+
+      // No Lambda@Edge signing without OAC_WITH_EDGE_SIGNING
+      const distributions = template.findResources("AWS::CloudFront::Distribution")
+      const config = (Object.values(distributions)[0] as any).Properties
+        .DistributionConfig
+      expect(config.DefaultCacheBehavior.LambdaFunctionAssociations).toBeUndefined()
+    })
+
+    it("should keep the response stream invoke mode with OAC", () => {
+      const streamingOutput = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      streamingOutput.origins.default.streaming = true
+      const fixture = createOpenNextFixture(streamingOutput)
+
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        protectServerFunctions: ServerFunctionProtection.OAC,
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::Lambda::Url", {
+        AuthType: "AWS_IAM",
+        InvokeMode: "RESPONSE_STREAM",
+      })
+    })
+
+    it("should protect additional function origins", () => {
+      const splitOutput = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      splitOutput.origins.api = {
+        type: "function",
+        handler: "index.handler",
+        bundle: "server-function",
+      }
+      splitOutput.behaviors.push({ pattern: "api/*", origin: "api" })
+      const fixture = createOpenNextFixture(splitOutput)
+
+      const construct = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        protectServerFunctions: ServerFunctionProtection.OAC,
+      })
+
+      expect(construct.origins.api).toBeDefined()
+      const template = Template.fromStack(stack)
+      const urls = template.findResources("AWS::Lambda::Url")
+      expect(Object.keys(urls).length).toBe(3)
+      Object.values(urls).forEach((url: any) => {
+        expect(url.Properties.AuthType).toBe("AWS_IAM")
+      })
+    })
+
+    it("should sign server requests with a Lambda@Edge function", () => {
+      const app = new App()
+      const edgeStack = new Stack(app, "EdgeStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      new NextjsSite(edgeStack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        protectServerFunctions: ServerFunctionProtection.OAC_WITH_EDGE_SIGNING,
+      })
+
+      const template = Template.fromStack(edgeStack)
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Description: "Next.js server function request signing",
+        Code: { ZipFile: Match.stringLikeRegexp("x-amz-content-sha256") },
+      })
+
+      const distributions = template.findResources("AWS::CloudFront::Distribution")
+      const config = (Object.values(distributions)[0] as any).Properties
+        .DistributionConfig
+      expect(config.DefaultCacheBehavior.LambdaFunctionAssociations).toEqual([
+        expect.objectContaining({ EventType: "origin-request", IncludeBody: true }),
+      ])
+      for (const pattern of ["_next/static/*", "_next/image*"]) {
+        const behavior = config.CacheBehaviors.find((b: any) => b.PathPattern === pattern)
+        expect(behavior.LambdaFunctionAssociations).toBeUndefined()
+      }
+    })
+
+    it("should hash request bodies and reject truncated ones", async () => {
+      const app = new App()
+      const edgeStack = new Stack(app, "EdgeStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      new NextjsSite(edgeStack, "TestOpenNext", {
+        openNextPath: openNextPath,
+        protectServerFunctions: ServerFunctionProtection.OAC_WITH_EDGE_SIGNING,
+      })
+
+      const functions = Template.fromStack(edgeStack).findResources(
+        "AWS::Lambda::Function",
+        { Properties: { Description: "Next.js server function request signing" } }
+      )
+      const code = (Object.values(functions)[0] as any).Properties.Code.ZipFile
+      const handlerExports: any = {}
+      new Function("require", "exports", code)(require, handlerExports)
+      const invoke = (request: any) =>
+        handlerExports.handler({
+          Records: [{ cf: { request: { headers: {}, ...request } } }],
+        })
+
+      const patched = await invoke({
+        method: "PATCH",
+        body: { data: Buffer.from("{}").toString("base64"), encoding: "base64" },
+      })
+      expect(patched.headers["x-amz-content-sha256"][0].value).toBe(
+        "44136fa355b3678a1146ad16f7e8649e94fb4fc21fe77e8310c060f61caaff8a"
+      )
+      const fetched = await invoke({ method: "GET" })
+      expect(fetched.headers["x-amz-content-sha256"]).toBeUndefined()
+      const truncated = await invoke({
+        method: "POST",
+        body: { data: "", encoding: "base64", inputTruncated: true },
+      })
+      expect(truncated.status).toBe("413")
+    })
+
+    it("should throw when edge signing is used without a distribution", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath: openNextPath,
+          createDistribution: false,
+          protectServerFunctions: ServerFunctionProtection.OAC_WITH_EDGE_SIGNING,
+        })
+      }).toThrow(/OAC_WITH_EDGE_SIGNING cannot be used when createDistribution is false/)
+    })
+
+    it("should throw when edge signing conflicts with an edge function", () => {
+      const edgeOutput = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      edgeOutput.edgeFunctions = {
+        middleware: { handler: "index.handler", bundle: "server-function" },
+      }
+      edgeOutput.behaviors[0].edgeFunction = "middleware"
+      const fixture = createOpenNextFixture(edgeOutput)
+      const app = new App()
+      const edgeStack = new Stack(app, "EdgeStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+
+      expect(() => {
+        new NextjsSite(edgeStack, "TestOpenNext", {
+          openNextPath: fixture.openNextPath,
+          protectServerFunctions: ServerFunctionProtection.OAC_WITH_EDGE_SIGNING,
+        })
+      }).toThrow(/cannot be combined with ServerFunctionProtection.OAC_WITH_EDGE_SIGNING/)
+    })
+  })
+
+  describe("invalidation", () => {
+    const findInvalidation = (template: Template) =>
+      Object.values(template.findResources("AWS::CloudFormation::CustomResource")).find(
+        (resource: any) => resource.Properties?.Paths
+      ) as any
+
+    it("should not invalidate by default", () => {
+      new NextjsSite(stack, "TestOpenNext", { openNextPath })
+
+      const template = Template.fromStack(stack)
+      expect(findInvalidation(template)).toBeUndefined()
+    })
+
+    it("should invalidate all paths after the deployments", () => {
+      new NextjsSite(stack, "TestOpenNext", { openNextPath, invalidation: {} })
+
+      const template = Template.fromStack(stack)
+      const invalidation = findInvalidation(template)
+      expect(invalidation.Properties.Paths).toEqual(["/*"])
+      expect(invalidation.DependsOn).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^TestOpenNextOpenNextBucketDeploymentassets/),
+          expect.stringMatching(/^TestOpenNextdefaultFunction/),
+        ])
+      )
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: "cloudfront:CreateInvalidation" }),
+          ]),
+        },
+      })
+    })
+
+    it("should wait for the invalidation to complete", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        invalidation: { paths: ["/", "/blog/*"], wait: true },
+      })
+
+      const template = Template.fromStack(stack)
+      expect(findInvalidation(template).Properties.Paths).toEqual(["/", "/blog/*"])
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Description: "Next.js CloudFront invalidation status",
+        Handler: "index.isComplete",
+      })
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: "cloudfront:GetInvalidation" }),
+          ]),
+        },
+      })
+    })
+
+    it("should version the invalidation by bundle contents", () => {
+      const fixture = createOpenNextFixture()
+      const synthVersion = () => {
+        const versionStack = new Stack()
+        new NextjsSite(versionStack, "TestOpenNext", {
+          openNextPath: fixture.openNextPath,
+          invalidation: { onlyWhenChanged: true },
+        })
+        return findInvalidation(Template.fromStack(versionStack)).Properties.Version
+      }
+
+      const version = synthVersion()
+      expect(synthVersion()).toEqual(version)
+
+      fs.writeFileSync(
+        path.join(fixture.fixtureDir, "server-function", "changed.js"),
+        "module.exports = {}"
+      )
+      expect(synthVersion()).not.toEqual(version)
+    })
+
+    it("should throw when createDistribution is false", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath,
+          createDistribution: false,
+          invalidation: {},
+        })
+      }).toThrow(/invalidation cannot be used when createDistribution is false/)
+    })
+  })
+
+  describe("deployment", () => {
+    it("should point function URLs at $LATEST by default", () => {
+      new NextjsSite(stack, "TestOpenNext", { openNextPath })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::Lambda::Alias", 0)
+      template.resourceCountIs("AWS::CodeDeploy::DeploymentGroup", 0)
+    })
+
+    it("should shift traffic to an alias with CodeDeploy", () => {
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        deployment: {},
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::Lambda::Alias", { Name: "live" })
+      template.hasResourceProperties("AWS::Lambda::Url", { Qualifier: "live" })
+      template.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+        DeploymentConfigName: "CodeDeployDefault.LambdaCanary10Percent5Minutes",
+        AlarmConfiguration: { Enabled: true },
+        AutoRollbackConfiguration: {
+          Enabled: true,
+          Events: Match.arrayWith(["DEPLOYMENT_FAILURE", "DEPLOYMENT_STOP_ON_ALARM"]),
+        },
+      })
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        MetricName: "Errors",
+        Threshold: 1,
+      })
+      expect(Object.keys(site.serverFunctionAliases)).toEqual(["default"])
+    })
+
+    it("should use the provided deployment config, alarms and alias name", () => {
+      const alarm = Alarm.fromAlarmArn(
+        stack,
+        "Alarm",
+        "arn:aws:cloudwatch:us-east-1:123456789012:alarm:errors"
+      )
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        deployment: {
+          deploymentConfig: LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE,
+          alarms: [alarm],
+          aliasName: "prod",
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::Lambda::Alias", { Name: "prod" })
+      template.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+        DeploymentConfigName: "CodeDeployDefault.LambdaLinear10PercentEvery1Minute",
+        AlarmConfiguration: { Alarms: [{ Name: "errors" }], Enabled: true },
+      })
+      template.resourceCountIs("AWS::CloudWatch::Alarm", 0)
+    })
+
+    it("should create a deployment group per server function", () => {
+      const splitOutput = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      splitOutput.origins.api = { ...splitOutput.origins.default }
+      splitOutput.behaviors.push({ pattern: "api/*", origin: "api" })
+      const fixture = createOpenNextFixture(splitOutput)
+
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        deployment: {},
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::Lambda::Alias", 2)
+      template.resourceCountIs("AWS::CodeDeploy::DeploymentGroup", 2)
+    })
+  })
+
+  describe("waf", () => {
+    const createUsEast1Stack = () =>
+      new Stack(new App(), "WafStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+
+    it("should attach an existing web ACL", () => {
+      const webAclArn =
+        "arn:aws:wafv2:us-east-1:123456789012:global/webacl/site/a1b2c3d4-5678-90ab-cdef"
+      new NextjsSite(stack, "TestOpenNext", { openNextPath, waf: { webAclArn } })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: { WebACLId: webAclArn },
+      })
+      template.resourceCountIs("AWS::WAFv2::WebACL", 0)
+    })
+
+    it("should create a web ACL with the managed rule groups by default", () => {
+      const wafStack = createUsEast1Stack()
+      const site = new NextjsSite(wafStack, "TestOpenNext", { openNextPath, waf: {} })
+
+      const template = Template.fromStack(wafStack)
+      template.hasResourceProperties("AWS::WAFv2::WebACL", {
+        Scope: "CLOUDFRONT",
+        DefaultAction: { Allow: {} },
+        Rules: [
+          Match.objectLike({
+            Name: "AWSManagedRulesCommonRuleSet",
+            Priority: 0,
+            Statement: {
+              ManagedRuleGroupStatement: Match.objectLike({
+                RuleActionOverrides: [
+                  { Name: "SizeRestrictions_BODY", ActionToUse: { Count: {} } },
+                ],
+              }),
+            },
+          }),
+          Match.objectLike({ Name: "AWSManagedRulesKnownBadInputsRuleSet", Priority: 1 }),
+        ],
+      })
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: {
+          WebACLId: { "Fn::GetAtt": [Match.stringLikeRegexp("WebAcl"), "Arn"] },
+        },
+      })
+      expect(site.webAcl).toBeDefined()
+    })
+
+    it("should add IP lists and rate limits before the managed rule groups", () => {
+      const wafStack = createUsEast1Stack()
+      new NextjsSite(wafStack, "TestOpenNext", {
+        openNextPath,
+        waf: {
+          allowedIps: ["10.0.0.0/8"],
+          blockedIps: ["192.0.2.0/24", "2001:db8::/32"],
+          rateLimit: 2000,
+          serverActionRateLimit: 100,
+          knownBadInputsRuleSet: false,
+        },
+      })
+
+      const template = Template.fromStack(wafStack)
+      template.resourceCountIs("AWS::WAFv2::IPSet", 3)
+      template.hasResourceProperties("AWS::WAFv2::IPSet", {
+        IPAddressVersion: "IPV6",
+        Addresses: ["2001:db8::/32"],
+      })
+      const webAcl = Object.values(template.findResources("AWS::WAFv2::WebACL"))[0] as any
+      expect(webAcl.Properties.Rules.map((rule: any) => rule.Name)).toEqual([
+        "AllowedIpsIPV4",
+        "BlockedIpsIPV4",
+        "BlockedIpsIPV6",
+        "RateLimit",
+        "ServerActionRateLimit",
+        "AWSManagedRulesCommonRuleSet",
+      ])
+      const serverActionRule = webAcl.Properties.Rules[4]
+      expect(serverActionRule.Action).toEqual({ Block: {} })
+      expect(serverActionRule.Statement.RateBasedStatement.Limit).toBe(100)
+      expect(
+        JSON.stringify(serverActionRule.Statement.RateBasedStatement.ScopeDownStatement)
+      ).toContain("next-action")
+    })
+
+    it("should create the web ACL in us-east-1 from other regions", () => {
+      const app = new App()
+      const siteStack = new Stack(app, "SiteStack", {
+        env: { account: "123456789012", region: "eu-west-1" },
+      })
+      new NextjsSite(siteStack, "TestOpenNext", { openNextPath, waf: {} })
+
+      const assembly = app.synth()
+      const wafStackArtifact = assembly.stacks.find((s) => s.stackName !== "SiteStack")
+      expect(wafStackArtifact?.environment.region).toBe("us-east-1")
+      const wafTemplate = Template.fromJSON(wafStackArtifact!.template)
+      wafTemplate.resourceCountIs("AWS::WAFv2::WebACL", 1)
+      wafTemplate.resourceCountIs("AWS::SSM::Parameter", 1)
+
+      const siteTemplate = Template.fromJSON(
+        assembly.getStackByName("SiteStack").template
+      )
+      siteTemplate.resourceCountIs("AWS::WAFv2::WebACL", 0)
+      siteTemplate.hasResourceProperties("Custom::AWS", {
+        Update: Match.stringLikeRegexp("getParameter"),
+      })
+    })
+
+    it("should throw when webAclArn is combined with other options", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath,
+          waf: { webAclArn: "arn", rateLimit: 100 },
+        })
+      }).toThrow(/waf.webAclArn cannot be combined/)
+    })
+
+    it("should throw when a rate limit is below the AWS WAF minimum", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath,
+          waf: { rateLimit: 5 },
+        })
+      }).toThrow(
+        "waf.rateLimit must be an integer of at least 10, the AWS WAF minimum " +
+          "for rate-based rules, but is 5."
+      )
+      expect(() => {
+        new NextjsSite(new Stack(), "TestOpenNext", {
+          openNextPath,
+          waf: { rateLimit: 100, serverActionRateLimit: 0 },
+        })
+      }).toThrow(/waf.serverActionRateLimit must be an integer of at least 10/)
+    })
+
+    it("should throw when createDistribution is false", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath,
+          createDistribution: false,
+          waf: {},
+        })
+      }).toThrow(/waf cannot be used when createDistribution is false/)
+    })
+  })
+
+  describe("monitoring", () => {
+    const alarmNames = (template: Template) =>
+      Object.values(template.findResources("AWS::CloudWatch::Alarm")).map(
+        (alarm: any) => alarm.Properties.AlarmDescription
+      )
+
+    it("should not create a dashboard by default", () => {
+      new NextjsSite(stack, "TestOpenNext", { openNextPath })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::CloudWatch::Dashboard", 0)
+      template.resourceCountIs("AWS::CloudWatch::Alarm", 0)
+    })
+
+    it("should create a dashboard and alarms with default thresholds", () => {
+      const site = new NextjsSite(stack, "TestOpenNext", { openNextPath, monitoring: {} })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::CloudWatch::Dashboard", 1)
+      expect(alarmNames(template)).toEqual([
+        "5xx responses of the default Next.js server function",
+        "Throttles of the default Next.js server function",
+        "p99 duration of the default Next.js server function",
+        "Errors of the Next.js image optimizer function",
+        "Age of the oldest Next.js revalidation message",
+        "Failed Next.js revalidations in the dead-letter queue",
+        "Throttled requests to the Next.js revalidation table",
+      ])
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        MetricName: "Url5xxCount",
+        Threshold: 10,
+      })
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        MetricName: "Duration",
+        ExtendedStatistic: "p99",
+        Threshold: 8000,
+      })
+      template.hasResourceProperties("AWS::SQS::Queue", {
+        RedrivePolicy: Match.objectLike({ maxReceiveCount: 3 }),
+      })
+      expect(site.dashboard).toBeDefined()
+      expect(site.monitoringAlarms).toHaveLength(7)
+
+      // CloudFront alarms need the stack to be in us-east-1
+      const warnings = Annotations.fromStack(stack).findWarning(
+        "*",
+        Match.stringLikeRegexp("CloudFront metrics only exist in us-east-1")
+      )
+      expect(warnings).toHaveLength(1)
+    })
+
+    it("should watch the alias of gradually deployed server functions", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        deployment: {},
+        monitoring: {},
+      })
+
+      const template = Template.fromStack(stack)
+      const alarm = Object.values(template.findResources("AWS::CloudWatch::Alarm")).find(
+        (resource: any) => resource.Properties.MetricName === "Url5xxCount"
+      ) as any
+      expect(alarm.Properties.Dimensions).toEqual(
+        expect.arrayContaining([expect.objectContaining({ Name: "Resource" })])
+      )
+    })
+
+    it("should create CloudFront alarms in us-east-1", () => {
+      const monitoringStack = new Stack(new App(), "MonitoringStack", {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      new NextjsSite(monitoringStack, "TestOpenNext", {
+        openNextPath,
+        monitoring: { distribution5xxErrorRateThreshold: 2, cacheHitRateThreshold: 80 },
+      })
+
+      const template = Template.fromStack(monitoringStack)
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        MetricName: "5xxErrorRate",
+        Namespace: "AWS/CloudFront",
+        Threshold: 2,
+        Dimensions: Match.arrayWith([{ Name: "Region", Value: "Global" }]),
+      })
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        MetricName: "CacheHitRate",
+        Threshold: 80,
+        ComparisonOperator: "LessThanThreshold",
+      })
+      template.hasResource("AWS::CloudFront::MonitoringSubscription", {})
+    })
+
+    it("should apply custom thresholds and notify the alarm topic", () => {
+      const topic = new Topic(stack, "AlarmTopic")
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        monitoring: {
+          alarmTopic: topic,
+          dashboardName: "my-site",
+          serverErrorsThreshold: 3,
+          serverDurationThreshold: Duration.seconds(2),
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::CloudWatch::Dashboard", {
+        DashboardName: "my-site",
+      })
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        MetricName: "Url5xxCount",
+        Threshold: 3,
+        AlarmActions: [{ Ref: Match.stringLikeRegexp("AlarmTopic") }],
+        OKActions: [{ Ref: Match.stringLikeRegexp("AlarmTopic") }],
+      })
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        MetricName: "Duration",
+        Threshold: 2000,
+      })
+    })
+  })
+
+  describe("removal policies", () => {
+    it("should destroy stateful resources by default", () => {
+      new NextjsSite(stack, "TestOpenNext", { openNextPath })
+
+      const template = Template.fromStack(stack)
+      template.hasResource("AWS::S3::Bucket", { DeletionPolicy: "Delete" })
+      template.hasResource("AWS::DynamoDB::GlobalTable", { DeletionPolicy: "Delete" })
+      template.hasResource("AWS::SQS::Queue", { DeletionPolicy: "Delete" })
+      template.resourceCountIs("Custom::S3AutoDeleteObjects", 1)
+    })
+
+    it("should retain stateful resources and keep the bucket objects", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        removalPolicy: RemovalPolicy.RETAIN,
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResource("AWS::S3::Bucket", { DeletionPolicy: "Retain" })
+      template.hasResource("AWS::DynamoDB::GlobalTable", { DeletionPolicy: "Retain" })
+      template.hasResource("AWS::SQS::Queue", { DeletionPolicy: "Retain" })
+      template.resourceCountIs("Custom::S3AutoDeleteObjects", 0)
+    })
+
+    it("should apply per-resource overrides", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        removalPolicy: RemovalPolicy.RETAIN,
+        removalPolicies: { bucket: RemovalPolicy.DESTROY, queue: RemovalPolicy.DESTROY },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResource("AWS::S3::Bucket", { DeletionPolicy: "Delete" })
+      template.hasResource("AWS::DynamoDB::GlobalTable", { DeletionPolicy: "Retain" })
+      template.hasResource("AWS::SQS::Queue", { DeletionPolicy: "Delete" })
+      template.resourceCountIs("Custom::S3AutoDeleteObjects", 1)
+    })
+
+    it("should retain resources that do not support snapshots", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        removalPolicy: RemovalPolicy.SNAPSHOT,
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResource("AWS::S3::Bucket", { DeletionPolicy: "Retain" })
+      template.hasResource("AWS::DynamoDB::GlobalTable", { DeletionPolicy: "Retain" })
+      template.hasResource("AWS::SQS::Queue", { DeletionPolicy: "Retain" })
+      const warnings = Annotations.fromStack(stack).findWarning(
+        "*",
+        Match.stringLikeRegexp("do not support RemovalPolicy.SNAPSHOT")
+      )
+      expect(warnings).toHaveLength(1)
+    })
+  })
+
+  describe("sourcemaps", () => {
+    let sourceMapOpenNextPath: string
+
+    beforeAll(() => {
+      const fixture = createOpenNextFixture()
+      sourceMapOpenNextPath = fixture.openNextPath
+      const bundleDir = path.join(fixture.fixtureDir, "server-function")
+      fs.writeFileSync(path.join(bundleDir, "index.js.map"), "{}")
+      fs.mkdirSync(path.join(bundleDir, ".next", "server"), { recursive: true })
+      fs.writeFileSync(path.join(bundleDir, ".next", "server", "page.js"), "")
+      fs.writeFileSync(path.join(bundleDir, ".next", "server", "page.js.map"), "{}")
+    })
+
+    it("should not enable source maps by default", () => {
+      new NextjsSite(stack, "TestOpenNext", { openNextPath: sourceMapOpenNextPath })
+
+      const template = Template.fromStack(stack)
+      const variables = findServerFunction(template).Properties.Environment.Variables
+      expect(variables.NODE_OPTIONS).toBeUndefined()
+    })
+
+    it("should enable source maps in the server functions", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: sourceMapOpenNextPath,
+        sourcemaps: {},
+        defaultFunctionProps: {
+          environment: { NODE_OPTIONS: "--max-old-space-size=512" },
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      const variables = findServerFunction(template).Properties.Environment.Variables
+      expect(variables.NODE_OPTIONS).toBe("--max-old-space-size=512 --enable-source-maps")
+      template.resourceCountIs("Custom::CDKBucketDeployment", 1)
+    })
+
+    it("should move source maps from the bundle to the bucket", () => {
+      const outdir = fs.mkdtempSync(path.join(os.tmpdir(), "sourcemaps-test-"))
+      fixtureDirs.push(outdir)
+      const app = new App({ outdir })
+      const sourceMapStack = new Stack(app, "SourceMapStack")
+      new NextjsSite(sourceMapStack, "TestOpenNext", {
+        openNextPath: sourceMapOpenNextPath,
+        sourcemaps: { uploadToBucket: true },
+      })
+
+      const assembly = app.synth()
+      const template = Template.fromJSON(
+        assembly.getStackByName("SourceMapStack").template
+      )
+      const serverFunction = findServerFunction(template)
+      // Node.js can't apply the maps once they are out of the bundle
+      expect(serverFunction.Properties.Environment.Variables.NODE_OPTIONS).toBeUndefined()
+      template.hasResourceProperties("Custom::CDKBucketDeployment", {
+        DestinationBucketKeyPrefix: "_sourcemaps/default",
+        Prune: false,
+      })
+
+      const assetFiles = (assetPath: string) =>
+        (
+          fs.readdirSync(path.join(assembly.directory, assetPath), {
+            recursive: true,
+            withFileTypes: true,
+          }) as fs.Dirent[]
+        )
+          .filter((entry) => entry.isFile())
+          .map((entry) =>
+            path.relative(
+              path.join(assembly.directory, assetPath),
+              path.join(entry.parentPath, entry.name)
+            )
+          )
+          .sort()
+      const serverAssetHash = serverFunction.Properties.Code.S3Key.replace(".zip", "")
+      expect(assetFiles(`asset.${serverAssetHash}`)).toEqual([
+        ".next/server/page.js",
+        "index.js",
+      ])
+      const sourceMapAsset = fs
+        .readdirSync(assembly.directory)
+        .filter((entry) => entry.startsWith("asset.") && !entry.endsWith(".zip"))
+        .find((entry) => assetFiles(entry).includes("index.js.map"))
+      expect(assetFiles(sourceMapAsset!)).toEqual([
+        ".next/server/page.js.map",
+        "index.js.map",
+      ])
+    })
+  })
+
+  describe("coldStart", () => {
+    it("should use provisioned concurrency instead of the warmer", () => {
+      const output = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      output.additionalProps.warmer = {
+        handler: "index.handler",
+        bundle: "server-function",
+      }
+      const fixture = createOpenNextFixture(output)
+
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: fixture.openNextPath,
+        coldStart: {
+          strategy: ColdStartStrategy.PROVISIONED_CONCURRENCY,
+          provisionedConcurrency: 3,
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::Lambda::Alias", {
+        Name: "live",
+        ProvisionedConcurrencyConfig: { ProvisionedConcurrentExecutions: 3 },
+      })
+      template.hasResourceProperties("AWS::Lambda::Url", { Qualifier: "live" })
+      template.resourceCountIs("AWS::CodeDeploy::DeploymentGroup", 0)
+      template.resourceCountIs("AWS::ApplicationAutoScaling::ScalableTarget", 0)
+      template.resourceCountIs("AWS::Events::Rule", 0)
+      const warmer = Object.values(template.findResources("AWS::Lambda::Function")).find(
+        (fn: any) => fn.Properties?.Description === "Next.js warmer"
+      )
+      expect(warmer).toBeUndefined()
+      expect(site.serverFunctionAliases.default).toBeDefined()
+    })
+
+    it("should warn about warming options ignored with provisioned concurrency", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        warm: { default: 2, imageOptimizer: 1 },
+        coldStart: { strategy: ColdStartStrategy.PROVISIONED_CONCURRENCY },
+      })
+
+      const warnings = Annotations.fromStack(stack).findWarning(
+        "*",
+        Match.stringLikeRegexp("Ignoring warm: ColdStartStrategy.PROVISIONED_CONCURRENCY")
+      )
+      expect(warnings).toHaveLength(1)
+    })
+
+    it("should warn about provisioned concurrency options without the strategy", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        coldStart: { provisionedConcurrency: 3 },
+      })
+
+      const warnings = Annotations.fromStack(stack).findWarning(
+        "*",
+        Match.stringLikeRegexp("Ignoring coldStart.provisionedConcurrency: these options")
+      )
+      expect(warnings).toHaveLength(1)
+    })
+
+    it("should auto scale provisioned concurrency", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        coldStart: {
+          strategy: ColdStartStrategy.PROVISIONED_CONCURRENCY,
+          provisionedConcurrency: 2,
+          maxProvisionedConcurrency: 10,
+          utilizationTarget: 0.7,
+          scheduledScaling: {
+            BusinessHours: {
+              schedule: ScalingScheduleExpression.cron({ hour: "8", minute: "0" }),
+              minCapacity: 5,
+            },
+          },
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::ApplicationAutoScaling::ScalableTarget", {
+        MinCapacity: 2,
+        MaxCapacity: 10,
+        ScalableDimension: "lambda:function:ProvisionedConcurrency",
+        ScheduledActions: [
+          Match.objectLike({
+            ScheduledActionName: "BusinessHours",
+            ScalableTargetAction: { MinCapacity: 5 },
+          }),
+        ],
+      })
+      template.hasResourceProperties("AWS::ApplicationAutoScaling::ScalingPolicy", {
+        TargetTrackingScalingPolicyConfiguration: Match.objectLike({ TargetValue: 0.7 }),
+      })
+    })
+
+    it("should combine provisioned concurrency with gradual deployments", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        deployment: { aliasName: "prod" },
+        coldStart: { strategy: ColdStartStrategy.PROVISIONED_CONCURRENCY },
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::Lambda::Alias", 1)
+      template.hasResourceProperties("AWS::Lambda::Alias", {
+        Name: "prod",
+        ProvisionedConcurrencyConfig: { ProvisionedConcurrentExecutions: 1 },
+      })
+      template.resourceCountIs("AWS::CodeDeploy::DeploymentGroup", 1)
+    })
+
+    it("should throw for auto scaling options without a maximum", () => {
+      expect(() => {
+        new NextjsSite(stack, "TestOpenNext", {
+          openNextPath,
+          coldStart: {
+            strategy: ColdStartStrategy.PROVISIONED_CONCURRENCY,
+            utilizationTarget: 0.7,
+          },
+        })
+      }).toThrow(/require coldStart.maxProvisionedConcurrency/)
+    })
+  })
+
+  describe("responseHeaders", () => {
+    const getBehaviorPolicies = (template: Template): Record<string, unknown> => {
+      const distribution = Object.values(
+        template.findResources("AWS::CloudFront::Distribution")
+      )[0] as any
+      const config = distribution.Properties.DistributionConfig
+      return {
+        default: config.DefaultCacheBehavior.ResponseHeadersPolicyId,
+        ...Object.fromEntries(
+          config.CacheBehaviors.map((behavior: any) => [
+            behavior.PathPattern,
+            behavior.ResponseHeadersPolicyId,
+          ])
+        ),
+      }
+    }
+
+    it("should not add a response headers policy by default", () => {
+      new NextjsSite(stack, "TestOpenNext", { openNextPath })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::CloudFront::ResponseHeadersPolicy", 0)
+    })
+
+    it("should apply the security headers preset to all behaviors", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        responseHeaders: {
+          customHeaders: { "x-robots-tag": "noindex" },
+          removeHeaders: ["server", "x-powered-by"],
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::CloudFront::ResponseHeadersPolicy", 1)
+      template.hasResourceProperties("AWS::CloudFront::ResponseHeadersPolicy", {
+        ResponseHeadersPolicyConfig: {
+          SecurityHeadersConfig: {
+            StrictTransportSecurity: {
+              AccessControlMaxAgeSec: 63072000,
+              IncludeSubdomains: true,
+              Override: false,
+            },
+            ContentTypeOptions: { Override: false },
+            ReferrerPolicy: { ReferrerPolicy: "strict-origin-when-cross-origin" },
+            FrameOptions: { FrameOption: "SAMEORIGIN" },
+          },
+          CustomHeadersConfig: {
+            Items: [{ Header: "x-robots-tag", Value: "noindex", Override: true }],
+          },
+          RemoveHeadersConfig: {
+            Items: [{ Header: "server" }, { Header: "x-powered-by" }],
+          },
+        },
+      })
+      const policies = Object.values(getBehaviorPolicies(template))
+      expect(policies).toHaveLength(3)
+      expect(new Set(policies.map((policy) => JSON.stringify(policy))).size).toBe(1)
+    })
+
+    it("should add CORS headers to static assets", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        responseHeaders: { staticCorsAllowOrigins: ["https://example.com"] },
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::CloudFront::ResponseHeadersPolicy", 2)
+      template.hasResourceProperties("AWS::CloudFront::ResponseHeadersPolicy", {
+        ResponseHeadersPolicyConfig: {
+          CorsConfig: Match.objectLike({
+            AccessControlAllowOrigins: { Items: ["https://example.com"] },
+          }),
+        },
+      })
+      const policies = getBehaviorPolicies(template)
+      expect(policies["_next/static/*"]).not.toEqual(policies.default)
+      expect(policies["_next/image*"]).toEqual(policies.default)
+    })
+
+    it("should use a provided response headers policy", () => {
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        responseHeaders: {
+          responseHeadersPolicy: ResponseHeadersPolicy.SECURITY_HEADERS,
+          staticCorsAllowOrigins: ["https://example.com"],
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::CloudFront::ResponseHeadersPolicy", 0)
+      const policies = Object.values(getBehaviorPolicies(template))
+      expect(new Set(policies).size).toBe(1)
+      expect(policies[0]).toBe("67f7725c-6f97-4210-82d7-5512b31e9d03")
+    })
+  })
+
+  describe("basicAuth", () => {
+    const request = (uri: string, authorization?: string) => ({
+      request: {
+        uri,
+        headers: {
+          host: { value: "example.com" },
+          ...(authorization && { authorization: { value: authorization } }),
+        },
+      },
+    })
+
+    it("should require the credentials from the site key value store", async () => {
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        basicAuth: { excludePaths: ["/api/health", "/.well-known/*"] },
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::CloudFront::KeyValueStore", 1)
+      template.hasResourceProperties("AWS::CloudFront::Function", {
+        FunctionConfig: {
+          Runtime: "cloudfront-js-2.0",
+          KeyValueStoreAssociations: [
+            {
+              KeyValueStoreARN: {
+                "Fn::GetAtt": [
+                  stack.getLogicalId(site.keyValueStore!.node.defaultChild as CfnElement),
+                  "Arn",
+                ],
+              },
+            },
+          ],
+        },
+      })
+
+      const handler = createViewerRequestHandler(site, {
+        "basic-auth": Buffer.from("admin:s3cret").toString("base64"),
+      })
+      expect(await handler(request("/"))).toEqual({
+        statusCode: 401,
+        statusDescription: "Unauthorized",
+        headers: { "www-authenticate": { value: 'Basic realm="Restricted"' } },
+      })
+      expect((await handler(request("/", "Basic YWRtaW46d3Jvbmc="))).statusCode).toBe(401)
+      const authorized = await handler(
+        request("/", `Basic ${Buffer.from("admin:s3cret").toString("base64")}`)
+      )
+      expect(authorized.headers.authorization).toBeUndefined()
+      expect(authorized.headers["x-forwarded-host"]).toEqual({ value: "example.com" })
+      expect((await handler(request("/api/health"))).statusCode).toBeUndefined()
+      expect(
+        (await handler(request("/.well-known/security.txt"))).statusCode
+      ).toBeUndefined()
+      expect((await handler(request("/api/healthz"))).statusCode).toBe(401)
+    })
+
+    it("should deny all requests while the credentials are missing", async () => {
+      const site = new NextjsSite(stack, "TestOpenNext", { openNextPath, basicAuth: {} })
+
+      const handler = createViewerRequestHandler(site)
+      expect((await handler(request("/"))).statusCode).toBe(401)
+      expect((await handler(request("/", "Basic "))).statusCode).toBe(401)
+      expect((await handler(request("/", "Basic undefined"))).statusCode).toBe(401)
+    })
+
+    it("should copy the credentials from a secret at deployment", () => {
+      const secret = new Secret(stack, "BasicAuthSecret")
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        basicAuth: { secret },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::CloudFormation::CustomResource", {
+        KeyValueStoreArn: {
+          "Fn::GetAtt": [
+            stack.getLogicalId(site.keyValueStore!.node.defaultChild as CfnElement),
+            "Arn",
+          ],
+        },
+        BasicAuth: {
+          SecretArn: { Ref: stack.getLogicalId(secret.node.defaultChild as CfnElement) },
+          Key: "basic-auth",
+        },
+      })
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: ["secretsmanager:GetSecretValue", "secretsmanager:DescribeSecret"],
+              Resource: {
+                Ref: stack.getLogicalId(secret.node.defaultChild as CfnElement),
+              },
+            }),
+          ]),
+        },
+      })
+      expect(site.cloudfrontFunctionCode).not.toContain("secretsmanager")
+    })
+
+    it("should reject a secret with a key value store of its own", () => {
+      expect(
+        () =>
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath,
+            basicAuth: {
+              secret: new Secret(stack, "BasicAuthSecret"),
+              keyValueStore: new KeyValueStore(stack, "BasicAuthStore"),
+            },
+          })
+      ).toThrow("basicAuth.secret cannot be combined with basicAuth.keyValueStore")
+    })
+
+    it("should redirect alternate names before asking for credentials", async () => {
+      const customStack = new Stack(undefined, undefined, {
+        env: { account: "123456789012", region: "us-east-1" },
+      })
+      const site = new NextjsSite(customStack, "TestOpenNext", {
+        openNextPath,
+        basicAuth: {},
+        customDomain: {
+          domainName: "example.com",
+          alternateNames: ["www.example.com"],
+          redirectAlternateNames: true,
+          hostedZone: HostedZone.fromHostedZoneAttributes(customStack, "HostedZone", {
+            hostedZoneId: "Z1234567890ABC",
+            zoneName: "example.com",
+          }),
+        },
+      })
+
+      const handler = createViewerRequestHandler(site)
+      const www = request("/blog")
+      www.request.headers.host.value = "www.example.com"
+      expect(await handler(www)).toMatchObject({
+        statusCode: 301,
+        headers: { location: { value: "https://example.com/blog" } },
+      })
+      expect((await handler(request("/blog"))).statusCode).toBe(401)
+    })
+
+    it("should read the credentials from a key value store", () => {
+      const keyValueStore = new KeyValueStore(stack, "BasicAuthStore")
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        basicAuth: { keyValueStore, keyValueStoreKey: "preview", realm: "Preview" },
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::CloudFront::KeyValueStore", 1)
+      template.hasResourceProperties("AWS::CloudFront::Function", {
+        FunctionConfig: {
+          Runtime: "cloudfront-js-2.0",
+          KeyValueStoreAssociations: [
+            { KeyValueStoreARN: { "Fn::GetAtt": [Match.anyValue(), "Arn"] } },
+          ],
+        },
+      })
+      expect(site.keyValueStore).toBeUndefined()
+      expect(site.cloudfrontFunctionCode).toContain('import cf from "cloudfront";')
+      expect(site.cloudfrontFunctionCode).toContain("async function handler")
+      expect(site.cloudfrontFunctionCode).toContain('.get("preview")')
+      expect(site.cloudfrontFunctionCode).toContain('Basic realm=\\"Preview\\"')
+    })
+  })
+
+  describe("cloudfrontFunctionHooks", () => {
+    it("should run the request hooks around the built-in logic", () => {
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        cloudfrontFunctionHooks: {
+          viewerRequestBefore: `
+            if (request.uri.length > 1 && request.uri.slice(-1) === "/") {
+              return { statusCode: 308, headers: { location: { value: request.uri.slice(0, -1) } } };
+            }
+          `,
+          viewerRequestAfter: `request.headers["x-forwarded-host-copy"] = request.headers["x-forwarded-host"];`,
+        },
+      })
+
+      const handler = new Function(`${site.cloudfrontFunctionCode}; return handler`)()
+      const request = (uri: string) => ({
+        request: { uri, headers: { host: { value: "example.com" } } },
+      })
+      expect(handler(request("/blog/"))).toEqual({
+        statusCode: 308,
+        headers: { location: { value: "/blog" } },
+      })
+      expect(handler(request("/blog")).headers["x-forwarded-host-copy"]).toEqual({
+        value: "example.com",
+      })
+      expect(site.cloudfrontResponseFunctionCode).toBeUndefined()
+      Template.fromStack(stack).resourceCountIs("AWS::CloudFront::Function", 1)
+    })
+
+    it("should associate a viewer response function with all behaviors", () => {
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        cloudfrontFunctionHooks: {
+          viewerResponse: `response.headers["x-variant"] = { value: "a" };`,
+        },
+      })
+
+      const handler = new Function(
+        `${site.cloudfrontResponseFunctionCode}; return handler`
+      )()
+      expect(handler({ request: {}, response: { headers: {} } })).toEqual({
+        headers: { "x-variant": { value: "a" } },
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::CloudFront::Function", 2)
+      const distribution = Object.values(
+        template.findResources("AWS::CloudFront::Distribution")
+      )[0] as any
+      const config = distribution.Properties.DistributionConfig
+      for (const behavior of [config.DefaultCacheBehavior, ...config.CacheBehaviors]) {
+        expect(behavior.FunctionAssociations.map((a: any) => a.EventType)).toEqual([
+          "viewer-request",
+          "viewer-response",
+        ])
+      }
+    })
+
+    it("should reject functions over the 10 KB limit", () => {
+      expect(
+        () =>
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath,
+            cloudfrontFunctionHooks: { viewerResponse: `// ${"x".repeat(10 * 1024)}` },
+          })
+      ).toThrow(/viewer response CloudFront function is \d+ bytes/)
+    })
+
+    it("should count tokens at their resolved length", () => {
+      const code = `// ${stack.account}\n`.repeat(200)
+      expect(Buffer.byteLength(code)).toBeLessThan(10 * 1024)
+      expect(
+        () =>
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath,
+            cloudfrontFunctionHooks: { viewerResponse: code },
+          })
+      ).toThrow(/viewer response CloudFront function is \d+ bytes/)
+    })
+  })
+
+  describe("redirects", () => {
+    const createRedirectsFile = (content: string) => {
+      const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), "open-next-redirects-"))
+      fixtureDirs.push(fixtureDir)
+      const file = path.join(fixtureDir, "redirects.csv")
+      fs.writeFileSync(file, content)
+      return file
+    }
+
+    it("should serve redirects from a key value store", async () => {
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        redirects: {
+          file: createRedirectsFile("/old,/new\n/docs,/documentation,rewrite"),
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      const storeArn = {
+        "Fn::GetAtt": [
+          stack.getLogicalId(site.keyValueStore!.node.defaultChild as CfnElement),
+          "Arn",
+        ],
+      }
+      template.hasResourceProperties("AWS::CloudFront::KeyValueStore", {
+        ImportSource: Match.absent(),
+      })
+      template.hasResourceProperties("AWS::CloudFormation::CustomResource", {
+        KeyValueStoreArn: storeArn,
+        Redirects: { Bucket: Match.anyValue(), Key: Match.stringLikeRegexp("\\.json$") },
+        Maintenance: Match.absent(),
+      })
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Handler: "index.handler",
+        Runtime: "nodejs24.x",
+        Description: "Next.js CloudFront key value store sync",
+      })
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            {
+              Action: [
+                "cloudfront-keyvaluestore:DescribeKeyValueStore",
+                "cloudfront-keyvaluestore:ListKeys",
+                "cloudfront-keyvaluestore:UpdateKeys",
+              ],
+              Effect: "Allow",
+              Resource: storeArn,
+            },
+          ]),
+        },
+      })
+      template.hasResource("AWS::CloudFront::Function", {
+        DependsOn: Match.arrayWith([
+          Match.stringLikeRegexp("^TestOpenNextKeyValueStoreSync"),
+        ]),
+      })
+      template.hasResourceProperties("AWS::CloudFront::Function", {
+        FunctionConfig: {
+          Runtime: "cloudfront-js-2.0",
+          KeyValueStoreAssociations: [
+            {
+              KeyValueStoreARN: {
+                "Fn::GetAtt": [
+                  stack.getLogicalId(site.keyValueStore!.node.defaultChild as CfnElement),
+                  "Arn",
+                ],
+              },
+            },
+          ],
+        },
+      })
+
+      const store: Record<string, string> = {
+        "/old": "301 /new",
+        "/docs": "rewrite /documentation",
+      }
+      const handler = createViewerRequestHandler(site, store)
+      const request = (uri: string) => ({
+        request: {
+          uri,
+          headers: { host: { value: "example.com" } },
+          querystring: { utm: { value: "mail" } },
+        },
+      })
+
+      expect(await handler(request("/old"))).toEqual({
+        statusCode: 301,
+        headers: { location: { value: "/new?utm=mail" } },
+      })
+      const rewritten = await handler(request("/docs"))
+      expect(rewritten.uri).toBe("/documentation")
+      expect(rewritten.headers["x-forwarded-host"]).toEqual({ value: "example.com" })
+      expect((await handler(request("/other"))).uri).toBe("/other")
+    })
+
+    it("should not look up redirects for static paths", async () => {
+      const output = JSON.parse(JSON.stringify(mockOpenNextOutput))
+      output.behaviors.push({ pattern: "favicon.ico", origin: "s3" })
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath: createOpenNextFixture(output).openNextPath,
+        redirects: { file: createRedirectsFile("/old,/new") },
+      })
+
+      const lookups: string[] = []
+      const handler = createViewerRequestHandler(
+        site,
+        {},
+        {
+          kvs: () => ({
+            get: async (key: string) => {
+              lookups.push(key)
+              throw new Error("Key not found")
+            },
+          }),
+        }
+      )
+      for (const uri of [
+        "/_next/static/app.js",
+        "/_next/image",
+        "/favicon.ico",
+        "/old",
+      ]) {
+        await handler({ request: { uri, headers: {}, querystring: {} } })
+      }
+
+      expect(lookups).toEqual(["/old"])
+    })
+
+    it("should keep the key value store when the redirects change", () => {
+      const synth = (content: string) => {
+        const redirectStack = new Stack()
+        new NextjsSite(redirectStack, "TestOpenNext", {
+          openNextPath,
+          redirects: { file: createRedirectsFile(content) },
+        })
+        const template = Template.fromStack(redirectStack)
+        const sync = Object.values(
+          template.findResources("AWS::CloudFormation::CustomResource", {
+            Properties: { Redirects: Match.anyValue() },
+          })
+        )[0] as any
+        return {
+          stores: template.findResources("AWS::CloudFront::KeyValueStore"),
+          dataKey: sync.Properties.Redirects.Key,
+        }
+      }
+
+      const first = synth("/a,/b")
+      const second = synth("/a,/c")
+      expect(second.stores).toEqual(first.stores)
+      expect(second.dataKey).not.toBe(first.dataKey)
+    })
+
+    it("should reject a basic auth key that looks like a redirect source", () => {
+      expect(
+        () =>
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath,
+            redirects: { file: createRedirectsFile("/a,/b") },
+            basicAuth: { keyValueStoreKey: "/basic-auth" },
+          })
+      ).toThrow(/basicAuth.keyValueStoreKey cannot start with \//)
+    })
+
+    it("should reject redirects with a basic auth key value store", () => {
+      expect(
+        () =>
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath,
+            redirects: { file: createRedirectsFile("/a,/b") },
+            basicAuth: { keyValueStore: new KeyValueStore(stack, "Store") },
+          })
+      ).toThrow(/can only be associated with one key value store/)
+    })
+  })
+
+  describe("maintenance", () => {
+    const createHandlers = (site: NextjsSite, store: Record<string, string>) => {
+      const selectedOrigins: string[] = []
+      const viewerRequest = createViewerRequestHandler(site, store, {
+        selectRequestOriginById: (originId: string) => selectedOrigins.push(originId),
+      })
+      const viewerResponse = new Function(
+        `${site.cloudfrontResponseFunctionCode}; return handler`
+      )()
+      return { viewerRequest, viewerResponse, selectedOrigins }
+    }
+
+    const event = (options: { ip?: string; method?: string; cookie?: string } = {}) => ({
+      viewer: { ip: options.ip ?? "198.51.100.1" },
+      request: {
+        method: options.method ?? "GET",
+        uri: "/blog",
+        headers: { host: { value: "example.com" } },
+        querystring: { page: { value: "2" } },
+        cookies: options.cookie ? { bypass: { value: options.cookie } } : {},
+      },
+    })
+
+    it("should deploy the maintenance page and the flag", () => {
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        maintenance: { enabled: true },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("Custom::CDKBucketDeployment", {
+        DestinationBucketKeyPrefix: "static/_maintenance",
+        UserMetadata: { maintenance: "true" },
+        SystemMetadata: { "cache-control": "no-cache" },
+      })
+      template.hasResourceProperties("AWS::CloudFormation::CustomResource", {
+        KeyValueStoreArn: Match.anyValue(),
+        Redirects: Match.absent(),
+        Maintenance: "on",
+      })
+      template.resourceCountIs("AWS::CloudFront::Function", 2)
+      expect(site.keyValueStore).toBeDefined()
+    })
+
+    it("should serve the maintenance page while the flag is on", async () => {
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        maintenance: { allowedIps: ["203.0.113.10"], bypassCookieName: "bypass" },
+      })
+      const store = { maintenance: "on", "maintenance-bypass": "letmein" }
+      const { viewerRequest, viewerResponse, selectedOrigins } = createHandlers(
+        site,
+        store
+      )
+
+      const request = await viewerRequest(event())
+      expect(request.uri).toBe("/_maintenance/index.html")
+      expect(request.querystring).toEqual({})
+      expect(selectedOrigins).toEqual(["S3Bucket"])
+      expect(await viewerRequest(event({ method: "POST" }))).toEqual({
+        statusCode: 503,
+        statusDescription: "Service Unavailable",
+      })
+      expect((await viewerRequest(event({ ip: "203.0.113.10" }))).uri).toBe("/blog")
+      expect((await viewerRequest(event({ cookie: "letmein" }))).uri).toBe("/blog")
+      expect((await viewerRequest(event({ cookie: "wrong" }))).uri).toBe(
+        "/_maintenance/index.html"
+      )
+
+      expect(
+        viewerResponse({
+          request: {},
+          response: {
+            statusCode: 200,
+            headers: { "x-amz-meta-maintenance": { value: "true" } },
+          },
+        })
+      ).toEqual({
+        statusCode: 503,
+        statusDescription: "Service Unavailable",
+        headers: {},
+      })
+      expect(
+        viewerResponse({ request: {}, response: { statusCode: 200, headers: {} } })
+      ).toEqual({ statusCode: 200, headers: {} })
+
+      store.maintenance = "off"
+      expect((await viewerRequest(event())).uri).toBe("/blog")
+    })
+
+    it("should use a custom maintenance page", () => {
+      const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), "open-next-maintenance-"))
+      fixtureDirs.push(fixtureDir)
+      const page = path.join(fixtureDir, "maintenance.html")
+      fs.writeFileSync(page, "<h1>Back soon</h1>")
+
+      expect(
+        () =>
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath,
+            maintenance: { page, enabled: true },
+          })
+      ).not.toThrow()
+      expect(
+        () =>
+          new NextjsSite(new Stack(), "TestOpenNext", {
+            openNextPath,
+            maintenance: { page: path.join(fixtureDir, "missing.html") },
+          })
+      ).toThrow(/Maintenance page '.*missing.html' does not exist/)
+    })
+
+    it("should reject maintenance without a distribution", () => {
+      expect(
+        () =>
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath,
+            createDistribution: false,
+            maintenance: {},
+          })
+      ).toThrow(/maintenance cannot be used when createDistribution is false/)
+    })
+  })
+
+  describe("accessLogs", () => {
+    it("should not enable logging by default", () => {
+      new NextjsSite(stack, "TestOpenNext", { openNextPath })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: { Logging: Match.absent() },
+      })
+      template.resourceCountIs("AWS::CloudFront::RealtimeLogConfig", 0)
+    })
+
+    it("should log to a created bucket with an expiration", () => {
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        accessLogs: { prefix: "cloudfront/", expiration: Duration.days(90) },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::S3::Bucket", {
+        OwnershipControls: { Rules: [{ ObjectOwnership: "ObjectWriter" }] },
+        LifecycleConfiguration: {
+          Rules: [{ ExpirationInDays: 90, Status: "Enabled" }],
+        },
+      })
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: {
+          Logging: {
+            Bucket: {
+              "Fn::GetAtt": [
+                stack.getLogicalId(site.accessLogBucket!.node.defaultChild as CfnElement),
+                "RegionalDomainName",
+              ],
+            },
+            Prefix: "cloudfront/",
+          },
+        },
+      })
+    })
+
+    it("should log to a supplied bucket", () => {
+      const bucket = Bucket.fromBucketName(stack, "LogBucket", "my-log-bucket")
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        accessLogs: { bucket, includeCookies: true },
+      })
+
+      const template = Template.fromStack(stack)
+      template.resourceCountIs("AWS::S3::Bucket", 1)
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: {
+          Logging: { Bucket: Match.anyValue(), IncludeCookies: true },
+        },
+      })
+      expect(site.accessLogBucket).toBe(bucket)
+      expect(() => {
+        new NextjsSite(new Stack(), "TestOpenNext", {
+          openNextPath,
+          accessLogs: {
+            bucket: Bucket.fromBucketName(stack, "OtherLogBucket", "other"),
+            expiration: Duration.days(30),
+          },
+        })
+      }).toThrow("accessLogs.expiration cannot be combined with accessLogs.bucket.")
+    })
+
+    it("should send real-time logs from all behaviors to a stream", () => {
+      const site = new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        removalPolicies: { logs: RemovalPolicy.RETAIN },
+        accessLogs: { realtime: { fields: ["timestamp", "c-ip"], samplingRate: 10 } },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::Kinesis::Stream", {
+        StreamModeDetails: { StreamMode: "ON_DEMAND" },
+        StreamEncryption: { EncryptionType: "KMS", KeyId: "alias/aws/kinesis" },
+      })
+      template.hasResource("AWS::Kinesis::Stream", { DeletionPolicy: "Retain" })
+      template.hasResource("AWS::S3::Bucket", {
+        DeletionPolicy: "Retain",
+        Properties: Match.objectLike({
+          OwnershipControls: { Rules: [{ ObjectOwnership: "ObjectWriter" }] },
+        }),
+      })
+      template.hasResourceProperties("AWS::CloudFront::RealtimeLogConfig", {
+        Fields: ["timestamp", "c-ip"],
+        SamplingRate: 10,
+        EndPoints: [Match.objectLike({ StreamType: "Kinesis" })],
+      })
+      expect(site.realtimeLogStream).toBeDefined()
+
+      const distribution = Object.values(
+        template.findResources("AWS::CloudFront::Distribution")
+      )[0] as any
+      const config = distribution.Properties.DistributionConfig
+      for (const behavior of [config.DefaultCacheBehavior, ...config.CacheBehaviors]) {
+        expect(behavior.RealtimeLogConfigArn).toEqual({
+          Ref: stack.getLogicalId(
+            site.node.findChild("RealtimeLogConfig").node.defaultChild as CfnElement
+          ),
+        })
+      }
+    })
+
+    it("should reject accessLogs without a distribution", () => {
+      expect(
+        () =>
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath,
+            createDistribution: false,
+            accessLogs: {},
+          })
+      ).toThrow(/accessLogs cannot be used when createDistribution is false/)
+    })
+  })
+
+  describe("secrets", () => {
+    it("should resolve secrets at cold start in the server functions", () => {
+      const secret = new Secret(stack, "DatabaseSecret")
+      const parameter = StringParameter.fromSecureStringParameterAttributes(
+        stack,
+        "StripeKey",
+        { parameterName: "/app/stripe-key" }
+      )
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        sourcemaps: {},
+        secrets: {
+          DATABASE_PASSWORD: { secret, jsonField: "password" },
+          STRIPE_KEY: { parameter },
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      template.hasResourceProperties("AWS::Lambda::LayerVersion", {
+        Description: "Resolves Next.js server secrets at cold start",
+      })
+      const fn = findServerFunction(template)
+      expect(fn.Properties.Layers).toEqual([
+        { Ref: expect.stringMatching(/SecretsLayer/) },
+        { "Fn::FindInMap": expect.arrayContaining(["ParamsandsecretslayerMap"]) },
+      ])
+      const variables = fn.Properties.Environment.Variables
+      expect(variables.NODE_OPTIONS).toBe(
+        "--enable-source-maps --import=/opt/cdk-opennext/secrets.mjs"
+      )
+      expect(JSON.stringify(stack.resolve(variables.CDK_OPENNEXT_SECRETS))).not.toContain(
+        "{{resolve"
+      )
+      const secrets = JSON.stringify(variables.CDK_OPENNEXT_SECRETS)
+      expect(secrets).toContain('\\"DATABASE_PASSWORD\\":{\\"secret\\":\\"')
+      expect(secrets).toContain('\\"jsonField\\":\\"password\\"')
+      expect(secrets).toContain(
+        '\\"STRIPE_KEY\\":{\\"parameter\\":\\"/app/stripe-key\\"}'
+      )
+
+      const policies = JSON.stringify(template.findResources("AWS::IAM::Policy"))
+      expect(policies).toContain("secretsmanager:GetSecretValue")
+      expect(policies).toContain("ssm:GetParameter")
+    })
+
+    it("should keep the layers of the function props", () => {
+      const layer = LayerVersion.fromLayerVersionArn(
+        stack,
+        "Layer",
+        "arn:aws:lambda:us-east-1:123456789012:layer:otel:1"
+      )
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        defaultFunctionProps: { layers: [layer] },
+        secrets: { API_KEY: { secret: new Secret(stack, "ApiKey") } },
+      })
+
+      const fn = findServerFunction(Template.fromStack(stack))
+      expect(fn.Properties.Layers).toEqual([
+        "arn:aws:lambda:us-east-1:123456789012:layer:otel:1",
+        { Ref: expect.stringMatching(/SecretsLayer/) },
+        { "Fn::FindInMap": expect.arrayContaining(["ParamsandsecretslayerMap"]) },
+      ])
+    })
+
+    it("should grant decrypting parameters with a customer managed key", () => {
+      const key = new Key(stack, "ParameterKey")
+      new NextjsSite(stack, "TestOpenNext", {
+        openNextPath,
+        secrets: {
+          API_KEY: {
+            parameter: StringParameter.fromSecureStringParameterAttributes(
+              stack,
+              "ApiKey",
+              { parameterName: "/app/api-key" }
+            ),
+            encryptionKey: key,
+          },
+        },
+      })
+
+      const template = Template.fromStack(stack)
+      const fn = findServerFunction(template)
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        Roles: [{ Ref: fn.Properties.Role["Fn::GetAtt"][0] }],
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: "kms:Decrypt",
+              Resource: {
+                "Fn::GetAtt": [
+                  stack.getLogicalId(key.node.defaultChild as CfnElement),
+                  "Arn",
+                ],
+              },
+            }),
+          ]),
+        },
+      })
+    })
+
+    it("should validate the secret sources", () => {
+      expect(
+        () =>
+          new NextjsSite(stack, "TestOpenNext", {
+            openNextPath,
+            secrets: { API_KEY: {} },
+          })
+      ).toThrow("secrets.API_KEY requires exactly one of secret and parameter.")
+      expect(
+        () =>
+          new NextjsSite(new Stack(), "TestOpenNext", {
+            openNextPath,
+            secrets: {
+              API_KEY: {
+                parameter: StringParameter.fromStringParameterName(stack, "Key", "/key"),
+                jsonField: "key",
+              },
+            },
+          })
+      ).toThrow("secrets.API_KEY.jsonField can only be used with secret.")
+    })
+  })
 })
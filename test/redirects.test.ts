@@ -0,0 +1,133 @@
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { loadRedirects, toKeyValueStoreData } from "../src/redirects"
+
+describe("loadRedirects", () => {
+  let fixtureDir: string
+
+  const createFile = (name: string, content: string) => {
+    const file = path.join(fixtureDir, name)
+    fs.writeFileSync(file, content)
+    return file
+  }
+
+  beforeAll(() => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), "redirects-test-"))
+  })
+
+  afterAll(() => {
+    fs.rmSync(fixtureDir, { recursive: true, force: true })
+  })
+
+  it("should load a JSON file", () => {
+    const file = createFile(
+      "redirects.json",
+      JSON.stringify([
+        { source: "/old", destination: "/new" },
+        { source: "/promo", destination: "https://example.com/sale", status: 302 },
+        { source: "/docs", destination: "/documentation", status: "rewrite" },
+      ])
+    )
+
+    expect(loadRedirects(file)).toEqual([
+      { source: "/old", destination: "/new", status: 301 },
+      { source: "/promo", destination: "https://example.com/sale", status: 302 },
+      { source: "/docs", destination: "/documentation", status: "rewrite" },
+    ])
+  })
+
+  it("should load a CSV file with a header line", () => {
+    const file = createFile(
+      "redirects.csv",
+      "source,destination,status\n/old,/new\r\n\n/promo, /sale, 308\n"
+    )
+
+    expect(loadRedirects(file)).toEqual([
+      { source: "/old", destination: "/new", status: 301 },
+      { source: "/promo", destination: "/sale", status: 308 },
+    ])
+  })
+
+  it("should allow commas in CSV destinations", () => {
+    const file = createFile(
+      "commas.csv",
+      "/search,/find?tags=a,b,302\n/filter,/list?ids=1,2\n/docs,/guide,rewrite\n/a,/b,\n"
+    )
+
+    expect(loadRedirects(file)).toEqual([
+      { source: "/search", destination: "/find?tags=a,b", status: 302 },
+      { source: "/filter", destination: "/list?ids=1,2", status: 301 },
+      { source: "/docs", destination: "/guide", status: "rewrite" },
+      { source: "/a", destination: "/b", status: 301 },
+    ])
+  })
+
+  it("should report CSV problems with line numbers", () => {
+    const file = createFile(
+      "invalid.csv",
+      'source,destination,status\n/old,/new\n"/a,b",/c\n/d\n/e,/f,200\n'
+    )
+
+    expect(() => loadRedirects(file)).toThrow(
+      [
+        `Invalid redirects file '${file}':`,
+        "  - line 3: quoted CSV values are not supported",
+        "  - line 4: destination must be a non-empty string",
+        "  - line 5: status must be one of 301, 302, 307, 308, rewrite",
+      ].join("\n")
+    )
+  })
+
+  it("should report all problems at once", () => {
+    const file = createFile(
+      "invalid.json",
+      JSON.stringify([
+        { source: "old", destination: "/new" },
+        { source: "/a", destination: "", status: 200 },
+        { source: "/b", destination: "/c?x=1", status: "rewrite" },
+        { source: "/d", destination: "/e" },
+        { source: "/d", destination: "/f" },
+      ])
+    )
+
+    expect(() => loadRedirects(file)).toThrow(
+      [
+        `Invalid redirects file '${file}':`,
+        "  - redirects[0]: source must be a path starting with /",
+        "  - redirects[1]: destination must be a non-empty string",
+        "  - redirects[1]: status must be one of 301, 302, 307, 308, rewrite",
+        "  - redirects[2]: destination of a rewrite must be a path without a query string",
+        "  - redirects[4]: source '/d' is duplicated",
+      ].join("\n")
+    )
+  })
+
+  it("should report missing files and invalid JSON", () => {
+    expect(() => loadRedirects(path.join(fixtureDir, "missing.json"))).toThrow(
+      /does not exist/
+    )
+    expect(() => loadRedirects(createFile("broken.json", "[{"))).toThrow(
+      /is not valid JSON/
+    )
+    expect(() => loadRedirects(createFile("object.json", "{}"))).toThrow(
+      /the file must contain a JSON array/
+    )
+  })
+
+  it("should serialize to the key value store import format", () => {
+    expect(
+      JSON.parse(
+        toKeyValueStoreData([
+          { source: "/old", destination: "/new", status: 301 },
+          { source: "/docs", destination: "/documentation", status: "rewrite" },
+        ])
+      )
+    ).toEqual({
+      data: [
+        { key: "/old", value: "301 /new" },
+        { key: "/docs", value: "rewrite /documentation" },
+      ],
+    })
+  })
+})
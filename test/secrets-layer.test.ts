@@ -0,0 +1,114 @@
+import { execFile } from "child_process"
+import * as http from "http"
+import { AddressInfo } from "net"
+import * as path from "path"
+import { promisify } from "util"
+
+const preload = path.join(
+  __dirname,
+  "..",
+  "assets",
+  "secrets-layer",
+  "cdk-opennext",
+  "secrets.mjs"
+)
+
+describe("secrets layer", () => {
+  let server: http.Server
+  let failures: number
+  const requests: string[] = []
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.url} ${req.headers["x-aws-parameters-secrets-token"]}`)
+      const url = new URL(req.url!, "http://localhost")
+      if (failures > 0) {
+        failures--
+        res.statusCode = 500
+        res.end("not ready")
+        return
+      }
+      if (url.pathname === "/systemsmanager/parameters/get") {
+        res.end(
+          JSON.stringify({
+            Parameter: { Value: `value of ${url.searchParams.get("name")}` },
+          })
+        )
+        return
+      }
+      const secrets: Record<string, string> = {
+        database: JSON.stringify({ password: "hunter2", port: 5432 }),
+        plain: "not json",
+      }
+      const secret = secrets[url.searchParams.get("secretId")!]
+      if (secret === undefined) {
+        res.statusCode = 400
+        res.end("ResourceNotFoundException")
+        return
+      }
+      res.end(JSON.stringify({ SecretString: secret }))
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  })
+
+  beforeEach(() => {
+    failures = 0
+    requests.length = 0
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  const run = async (secrets: Record<string, unknown>) => {
+    const { stdout } = await promisify(execFile)(
+      process.execPath,
+      ["--import", preload, "-e", "console.log(JSON.stringify(process.env))"],
+      {
+        env: {
+          AWS_SESSION_TOKEN: "token",
+          CDK_OPENNEXT_SECRETS: JSON.stringify(secrets),
+          PARAMETERS_SECRETS_EXTENSION_HTTP_PORT: String(
+            (server.address() as AddressInfo).port
+          ),
+        },
+        timeout: 30_000,
+      }
+    )
+    return JSON.parse(stdout)
+  }
+
+  it("should set the environment variables before the server loads", async () => {
+    failures = 1
+    const env = await run({
+      DATABASE_PASSWORD: { secret: "database", jsonField: "password" },
+      DATABASE_PORT: { secret: "database", jsonField: "port" },
+      DATABASE: { secret: "database" },
+      API_KEY: { parameter: "/app/api-key" },
+    })
+
+    expect(env).toMatchObject({
+      DATABASE_PASSWORD: "hunter2",
+      DATABASE_PORT: "5432",
+      DATABASE: JSON.stringify({ password: "hunter2", port: 5432 }),
+      API_KEY: "value of /app/api-key",
+    })
+    expect(requests).toContain(
+      "/systemsmanager/parameters/get?name=%2Fapp%2Fapi-key&withDecryption=true token"
+    )
+  })
+
+  it("should fail the cold start with an error naming the variable", async () => {
+    await expect(
+      run({ DATABASE_USER: { secret: "database", jsonField: "user" } })
+    ).rejects.toThrow(
+      "Could not resolve the secret of DATABASE_USER: the secret has no field 'user'"
+    )
+    await expect(run({ TOKEN: { secret: "plain", jsonField: "token" } })).rejects.toThrow(
+      "Could not resolve the secret of TOKEN: the secret is not JSON, but jsonField 'token' is set"
+    )
+    await expect(run({ MISSING: { secret: "missing" } })).rejects.toThrow(
+      "Could not resolve the secret of MISSING: 400 ResourceNotFoundException"
+    )
+  })
+})